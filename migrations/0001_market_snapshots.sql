@@ -0,0 +1,23 @@
+-- 정기 발송 작업이 가져온 시장 데이터 스냅샷
+-- npx wrangler d1 migrations apply dailyfinance-telegrambot
+
+-- 작업별 원본 데이터 (DailyMarketSummary / NasdaqCloseStatus JSON)
+CREATE TABLE IF NOT EXISTS market_snapshots (
+  date TEXT NOT NULL,          -- YYYY-MM-DD (일일 브리핑: KST, 나스닥: 현지 거래일)
+  kind TEXT NOT NULL,          -- 'daily-market-summary' | 'nasdaq-close-status'
+  payload TEXT NOT NULL,
+  recorded_at TEXT NOT NULL,
+  PRIMARY KEY (date, kind)
+);
+
+-- /history 조회용 시장별 종가
+CREATE TABLE IF NOT EXISTS market_closes (
+  date TEXT NOT NULL,
+  market TEXT NOT NULL,        -- MarketType
+  close REAL NOT NULL,
+  value_text TEXT NOT NULL,
+  recorded_at TEXT NOT NULL,
+  PRIMARY KEY (date, market)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_closes_market_date ON market_closes (market, date DESC);
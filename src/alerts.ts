@@ -0,0 +1,437 @@
+/**
+ * 채팅방별 가격 알림 모듈
+ *
+ * - `알림 코스피 > 2700`: 지정가 돌파 알림 (1회 발송 후 삭제)
+ * - `알림 USD/KRW -1%`: 전일 대비 등락률 알림 (조건 해소 후 재무장)
+ * - `알림 목록`, `알림 삭제 <id>`: 알림 관리
+ */
+
+import { ChangeInfo, getFinnhubMarketData, MarketType, parseCommand } from './scraper';
+import { getMarketData } from './providers';
+import { BotStateKv } from './kv';
+
+const ALERT_KEY_PREFIX = 'alerts:';
+const ALERT_COMMAND_PREFIX = '알림';
+export const MAX_ALERTS_PER_CHAT = 20;
+
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+
+export type AlertCondition =
+  | { kind: 'threshold'; operator: AlertOperator; value: number }
+  | { kind: 'percent'; direction: 'up' | 'down' | 'any'; percent: number };
+
+export type AlertTarget =
+  | { source: 'naver'; marketType: MarketType }
+  | { source: 'finnhub'; symbol: string };
+
+export interface PriceAlert {
+  id: number;
+  target: AlertTarget;
+  label: string;
+  condition: AlertCondition;
+  armed: boolean;
+  createdAt: string;
+  createdBy?: string;
+  lastTriggeredAt?: string;
+}
+
+export interface ChatAlertState {
+  nextId: number;
+  alerts: PriceAlert[];
+}
+
+export interface AlertQuote {
+  name: string;
+  value: string;
+  numericValue: number;
+  change?: ChangeInfo;
+}
+
+export type AlertCommand =
+  | { action: 'list' }
+  | { action: 'delete'; id: number }
+  | { action: 'create'; query: string; condition: AlertCondition }
+  | { action: 'invalid'; reason: string };
+
+export type AlertTargetResolution =
+  | { status: 'ok'; target: AlertTarget; label: string; quote: AlertQuote }
+  | { status: 'not_found'; query: string }
+  | { status: 'error'; query: string; reason: string };
+
+export const ALERT_USAGE_TEXT = [
+  '사용법:',
+  '• 알림 코스피 > 2700',
+  '• 알림 USD/KRW -1%',
+  '• 알림 AAPL < 180',
+  '• 알림 목록',
+  '• 알림 삭제 1',
+].join('\n');
+
+function toNumber(value?: string): number | null {
+  if (!value) return null;
+
+  const parsed = Number(value.replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * 전일 대비 등락률을 부호 있는 숫자로 변환
+ */
+export function getSignedChangePercent(change?: ChangeInfo): number | null {
+  const percent = toNumber(change?.percent.replace(/%$/, ''));
+  if (percent === null || !change) return null;
+
+  const magnitude = Math.abs(percent);
+  if (change.direction === 'down') return -magnitude;
+  if (change.direction === 'up') return magnitude;
+  return 0;
+}
+
+/**
+ * "알림 ..." 명령어 파싱
+ */
+export function parseAlertCommand(command: string): AlertCommand | null {
+  const trimmed = command.trim();
+
+  if (trimmed !== ALERT_COMMAND_PREFIX && !trimmed.startsWith(`${ALERT_COMMAND_PREFIX} `)) {
+    return null;
+  }
+
+  const body = trimmed.slice(ALERT_COMMAND_PREFIX.length).trim();
+
+  if (!body) {
+    return { action: 'invalid', reason: '알림 조건이 비어 있습니다.' };
+  }
+
+  if (body === '목록') {
+    return { action: 'list' };
+  }
+
+  const deleteMatch = body.match(/^삭제\s*(\S*)$/);
+  if (deleteMatch) {
+    const id = Number(deleteMatch[1]);
+    if (!Number.isInteger(id) || id <= 0) {
+      return { action: 'invalid', reason: '삭제할 알림 번호를 입력해주세요.' };
+    }
+    return { action: 'delete', id };
+  }
+
+  const thresholdMatch = body.match(/^(.+?)\s*(>=|<=|>|<)\s*([\d,]+(?:\.\d+)?)$/);
+  if (thresholdMatch) {
+    const [, query, operator, rawValue] = thresholdMatch;
+    const value = toNumber(rawValue);
+
+    if (value === null) {
+      return { action: 'invalid', reason: `"${rawValue}"은(는) 올바른 숫자가 아닙니다.` };
+    }
+
+    return {
+      action: 'create',
+      query: query.trim(),
+      condition: { kind: 'threshold', operator: operator as AlertOperator, value },
+    };
+  }
+
+  const percentMatch = body.match(/^(.+?)\s+([+-]?)(\d+(?:\.\d+)?)%$/);
+  if (percentMatch) {
+    const [, query, sign, rawPercent] = percentMatch;
+    const percent = Number(rawPercent);
+
+    if (!Number.isFinite(percent) || percent <= 0) {
+      return { action: 'invalid', reason: '등락률은 0보다 커야 합니다.' };
+    }
+
+    return {
+      action: 'create',
+      query: query.trim(),
+      condition: {
+        kind: 'percent',
+        direction: sign === '-' ? 'down' : sign === '+' ? 'up' : 'any',
+        percent,
+      },
+    };
+  }
+
+  return { action: 'invalid', reason: '알림 조건을 이해하지 못했습니다.' };
+}
+
+/**
+ * 알림 조건을 사람이 읽을 수 있는 문자열로 변환
+ */
+export function formatAlertCondition(condition: AlertCondition): string {
+  if (condition.kind === 'threshold') {
+    return `${condition.operator} ${condition.value.toLocaleString('en-US', { maximumFractionDigits: 8 })}`;
+  }
+
+  const sign = condition.direction === 'up' ? '+' : condition.direction === 'down' ? '-' : '±';
+  return `전일 대비 ${sign}${condition.percent}%`;
+}
+
+/**
+ * 알림 조건 충족 여부 확인
+ */
+export function isAlertConditionMet(condition: AlertCondition, quote: AlertQuote): boolean {
+  if (condition.kind === 'threshold') {
+    switch (condition.operator) {
+      case '>': return quote.numericValue > condition.value;
+      case '>=': return quote.numericValue >= condition.value;
+      case '<': return quote.numericValue < condition.value;
+      case '<=': return quote.numericValue <= condition.value;
+    }
+  }
+
+  const changePercent = getSignedChangePercent(quote.change);
+  if (changePercent === null) return false;
+
+  switch (condition.direction) {
+    case 'up': return changePercent >= condition.percent;
+    case 'down': return changePercent <= -condition.percent;
+    case 'any': return Math.abs(changePercent) >= condition.percent;
+  }
+}
+
+export function getAlertTargetKey(target: AlertTarget): string {
+  return target.source === 'naver' ? `naver:${target.marketType}` : `finnhub:${target.symbol}`;
+}
+
+/**
+ * 알림 대상의 현재 시세 조회
+ */
+export async function fetchAlertQuote(target: AlertTarget, finnhubApiKey?: string): Promise<AlertQuote | null> {
+  if (target.source === 'naver') {
+    const data = await getMarketData(target.marketType, finnhubApiKey);
+    const numericValue = toNumber(data?.value);
+
+    if (!data || numericValue === null) return null;
+
+    return { name: data.name, value: data.value, numericValue, change: data.change };
+  }
+
+  if (!finnhubApiKey) return null;
+
+  const result = await getFinnhubMarketData(target.symbol, finnhubApiKey);
+  if (result.status !== 'ok') {
+    if (result.status === 'error') {
+      console.error(`Alert quote lookup failed for ${target.symbol}:`, result.reason);
+    }
+    return null;
+  }
+
+  const numericValue = toNumber(result.data.value);
+  if (numericValue === null) return null;
+
+  return {
+    name: result.data.name,
+    value: result.data.value,
+    numericValue,
+    change: result.data.change,
+  };
+}
+
+/**
+ * 사용자 입력을 알림 대상으로 변환 (네이버 시세 우선, 없으면 Finnhub 검색)
+ */
+export async function resolveAlertTarget(query: string, finnhubApiKey?: string): Promise<AlertTargetResolution> {
+  const marketType = parseCommand(query) || parseCommand(query.replace(/\/KRW$/i, ''));
+
+  if (marketType) {
+    const target: AlertTarget = { source: 'naver', marketType };
+    const quote = await fetchAlertQuote(target, finnhubApiKey);
+
+    if (!quote) {
+      return { status: 'error', query, reason: `Failed to fetch ${marketType} quote` };
+    }
+
+    return { status: 'ok', target, label: quote.name, quote };
+  }
+
+  if (!finnhubApiKey) {
+    return { status: 'error', query, reason: 'Missing FINNHUB_API_KEY' };
+  }
+
+  const result = await getFinnhubMarketData(query, finnhubApiKey);
+  if (result.status !== 'ok') {
+    return result;
+  }
+
+  const numericValue = toNumber(result.data.value);
+  if (numericValue === null) {
+    return { status: 'error', query, reason: `Invalid quote value: ${result.data.value}` };
+  }
+
+  return {
+    status: 'ok',
+    target: { source: 'finnhub', symbol: result.data.symbol },
+    label: result.data.name,
+    quote: {
+      name: result.data.name,
+      value: result.data.value,
+      numericValue,
+      change: result.data.change,
+    },
+  };
+}
+
+function getAlertKey(chatId: string): string {
+  return `${ALERT_KEY_PREFIX}${chatId}`;
+}
+
+export async function loadChatAlerts(kv: BotStateKv, chatId: string): Promise<ChatAlertState> {
+  const state = await kv.get<ChatAlertState>(getAlertKey(chatId), 'json');
+  return state || { nextId: 1, alerts: [] };
+}
+
+export async function saveChatAlerts(kv: BotStateKv, chatId: string, state: ChatAlertState): Promise<void> {
+  if (state.alerts.length === 0) {
+    await kv.delete(getAlertKey(chatId));
+    return;
+  }
+
+  await kv.put(getAlertKey(chatId), JSON.stringify(state));
+}
+
+/**
+ * 알림이 등록된 모든 채팅방 ID 조회
+ */
+export async function listAlertChatIds(kv: BotStateKv): Promise<string[]> {
+  const chatIds: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix: ALERT_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      chatIds.push(key.name.slice(ALERT_KEY_PREFIX.length));
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return chatIds;
+}
+
+export async function addChatAlert(
+  kv: BotStateKv,
+  chatId: string,
+  alert: Omit<PriceAlert, 'id' | 'armed' | 'createdAt'>
+): Promise<PriceAlert | null> {
+  const state = await loadChatAlerts(kv, chatId);
+
+  if (state.alerts.length >= MAX_ALERTS_PER_CHAT) {
+    return null;
+  }
+
+  const created: PriceAlert = {
+    ...alert,
+    id: state.nextId,
+    armed: true,
+    createdAt: new Date().toISOString(),
+  };
+
+  state.alerts.push(created);
+  state.nextId += 1;
+  await saveChatAlerts(kv, chatId, state);
+
+  return created;
+}
+
+export async function removeChatAlert(kv: BotStateKv, chatId: string, id: number): Promise<PriceAlert | null> {
+  const state = await loadChatAlerts(kv, chatId);
+  const index = state.alerts.findIndex(alert => alert.id === id);
+
+  if (index === -1) {
+    return null;
+  }
+
+  const [removed] = state.alerts.splice(index, 1);
+  await saveChatAlerts(kv, chatId, state);
+
+  return removed;
+}
+
+export interface TriggeredAlert {
+  alert: PriceAlert;
+  quote: AlertQuote;
+}
+
+export interface AlertEvaluation {
+  triggered: TriggeredAlert[];
+  rearmedIds: number[];
+}
+
+/**
+ * 채팅방 알림 평가 (상태는 바꾸지 않음)
+ *
+ * 조건을 충족한 무장 알림은 triggered, 조건이 해소된 등락률 알림은 rearmedIds로 돌려준다.
+ * 삭제·해제는 발송에 성공한 알림만 applyAlertResults에서 반영한다.
+ */
+export function evaluateChatAlerts(
+  alerts: PriceAlert[],
+  quotes: Map<string, AlertQuote | null>
+): AlertEvaluation {
+  const triggered: TriggeredAlert[] = [];
+  const rearmedIds: number[] = [];
+
+  for (const alert of alerts) {
+    const quote = quotes.get(getAlertTargetKey(alert.target));
+
+    if (!quote) {
+      continue;
+    }
+
+    const conditionMet = isAlertConditionMet(alert.condition, quote);
+
+    if (conditionMet && alert.armed) {
+      triggered.push({ alert, quote });
+    } else if (!conditionMet && !alert.armed) {
+      rearmedIds.push(alert.id);
+    }
+  }
+
+  return { triggered, rearmedIds };
+}
+
+/**
+ * 알림 평가 결과 저장
+ *
+ * 발송에 성공한 지정가 알림은 삭제하고 등락률 알림은 해제하며, 조건이 해소된 알림은 다시 무장한다.
+ * 확인하는 동안 추가·삭제된 알림을 덮어쓰지 않도록 저장 직전에 다시 읽어 알림 ID 기준으로 반영한다.
+ */
+export async function applyAlertResults(
+  kv: BotStateKv,
+  chatId: string,
+  deliveredIds: number[],
+  rearmedIds: number[],
+  now = new Date()
+): Promise<void> {
+  if (deliveredIds.length === 0 && rearmedIds.length === 0) {
+    return;
+  }
+
+  const delivered = new Set(deliveredIds);
+  const rearmed = new Set(rearmedIds);
+  const state = await loadChatAlerts(kv, chatId);
+  const remaining: PriceAlert[] = [];
+  let changed = false;
+
+  for (const alert of state.alerts) {
+    if (delivered.has(alert.id)) {
+      changed = true;
+
+      if (alert.condition.kind === 'percent') {
+        remaining.push({ ...alert, armed: false, lastTriggeredAt: now.toISOString() });
+      }
+      continue;
+    }
+
+    if (rearmed.has(alert.id) && !alert.armed) {
+      remaining.push({ ...alert, armed: true });
+      changed = true;
+      continue;
+    }
+
+    remaining.push(alert);
+  }
+
+  if (changed) {
+    await saveChatAlerts(kv, chatId, { ...state, alerts: remaining });
+  }
+}
@@ -0,0 +1,7 @@
+// nodejs_als 호환성 플래그로 제공되는 AsyncLocalStorage (@types/node 없이 필요한 부분만 선언)
+declare module 'node:async_hooks' {
+  export class AsyncLocalStorage<T> {
+    getStore(): T | undefined;
+    run<R>(store: T, callback: () => R): R;
+  }
+}
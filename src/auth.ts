@@ -0,0 +1,101 @@
+/**
+ * HTTP 요청 인증 모듈
+ *
+ * - 텔레그램 웹훅: X-Telegram-Bot-Api-Secret-Token 헤더 검증
+ * - 관리자 엔드포인트: Authorization: Bearer <ADMIN_TOKEN> 검증
+ * - 관리자 명령어: ADMIN_USER_IDS에 등록된 텔레그램 사용자만 허용
+ */
+
+export const TELEGRAM_SECRET_HEADER = 'X-Telegram-Bot-Api-Secret-Token';
+
+export interface AuthEnv {
+  TELEGRAM_WEBHOOK_SECRET?: string;
+  ADMIN_TOKEN?: string;
+  ADMIN_USER_IDS?: string;   // 쉼표로 구분한 텔레그램 사용자 ID
+}
+
+export type AuthResult =
+  | { ok: true }
+  | { ok: false; reason: string };
+
+function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+
+  if (left.byteLength !== right.byteLength) {
+    return false;
+  }
+
+  return crypto.subtle.timingSafeEqual(left, right);
+}
+
+/**
+ * 텔레그램 웹훅 secret token 검증 (setWebhook의 secret_token과 동일해야 함)
+ */
+export function verifyWebhookSecret(request: Request, env: AuthEnv): AuthResult {
+  if (!env.TELEGRAM_WEBHOOK_SECRET) {
+    return { ok: false, reason: 'TELEGRAM_WEBHOOK_SECRET is not configured' };
+  }
+
+  const received = request.headers.get(TELEGRAM_SECRET_HEADER);
+
+  if (!received) {
+    return { ok: false, reason: 'missing secret token header' };
+  }
+
+  if (!timingSafeEqual(received, env.TELEGRAM_WEBHOOK_SECRET)) {
+    return { ok: false, reason: 'secret token mismatch' };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * 관리자 Bearer 토큰 검증
+ */
+export function verifyAdminToken(request: Request, env: AuthEnv): AuthResult {
+  if (!env.ADMIN_TOKEN) {
+    return { ok: false, reason: 'ADMIN_TOKEN is not configured' };
+  }
+
+  const authorization = request.headers.get('Authorization') || '';
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    return { ok: false, reason: 'missing bearer token' };
+  }
+
+  if (!timingSafeEqual(match[1].trim(), env.ADMIN_TOKEN)) {
+    return { ok: false, reason: 'bearer token mismatch' };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * 관리자 명령어 사용 가능 여부 (ADMIN_USER_IDS 미설정 시 아무도 사용할 수 없음)
+ */
+export function isAdminUser(env: AuthEnv, userId: number | string): boolean {
+  const adminIds = (env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  return adminIds.includes(String(userId));
+}
+
+/**
+ * 거부된 요청 로그 (토큰 값은 기록하지 않음)
+ */
+export function logRejectedRequest(kind: 'webhook' | 'admin', request: Request, reason: string): void {
+  const url = new URL(request.url);
+
+  console.warn(`Rejected ${kind} request:`, {
+    reason,
+    method: request.method,
+    path: url.pathname,
+    ip: request.headers.get('CF-Connecting-IP') || 'unknown',
+    userAgent: request.headers.get('User-Agent') || 'unknown',
+  });
+}
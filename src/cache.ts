@@ -0,0 +1,95 @@
+/**
+ * 외부 API 응답 공유 캐시 모듈
+ *
+ * Workers Cache API(caches.default)에 JSON 응답을 저장해 콜드 스타트 후에도, 같은 데이터센터의
+ * 다른 isolate끼리도 캐시를 공유한다. 데이터 종류(source)마다 TTL이 다르다.
+ *
+ * - realtime: 실시간 시세 (30초)
+ * - history: 차트용 일별 시세 (3시간)
+ * - reference: Finnhub 종목 프로필, 검색 결과 (1일)
+ *
+ * Cron 작업은 runWithFreshCache로 감싸 항상 API를 직접 호출하고 결과로 캐시를 갱신한다
+ * (장마감 직후 발송에 장중에 캐시된 일별 시세가 섞이지 않도록). 캐시 우회 여부는 AsyncLocalStorage로
+ * 실행 단위마다 따로 관리해, 같은 isolate에서 동시에 처리되는 웹훅 요청은 영향을 받지 않는다.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { isFixtureMode } from './fixtures';
+
+export type CacheSource = 'realtime' | 'history' | 'reference';
+
+export const CACHE_TTL_SECONDS: Record<CacheSource, number> = {
+  realtime: 30,
+  history: 3 * 60 * 60,
+  reference: 24 * 60 * 60,
+};
+
+// Cache API 키용 가상 URL (실제로 요청하지 않음)
+const CACHE_KEY_BASE = 'https://response-cache.dailyfinance.internal';
+
+const freshCacheScope = new AsyncLocalStorage<boolean>();
+
+function getCacheRequest(source: CacheSource, key: string): Request {
+  return new Request(`${CACHE_KEY_BASE}/${source}/${encodeURIComponent(key)}`);
+}
+
+function getSharedCache(): Cache | null {
+  // fixture 모드는 기록된 응답을 그대로 쓰므로 캐시하지 않는다
+  if (isFixtureMode() || typeof caches === 'undefined') {
+    return null;
+  }
+
+  return caches.default;
+}
+
+/**
+ * 캐시 조회 후 없으면 load 결과를 저장 (load가 실패하면 저장하지 않고 오류 전달)
+ *
+ * key에는 API 키 같은 비밀 값을 넣지 않는다 (로그에 그대로 남음).
+ */
+export async function withCache<T>(source: CacheSource, key: string, load: () => Promise<T>): Promise<T> {
+  const cache = getSharedCache();
+  const fresh = freshCacheScope.getStore() === true;
+
+  if (!cache) {
+    return load();
+  }
+
+  const cacheRequest = getCacheRequest(source, key);
+
+  if (!fresh) {
+    try {
+      const cached = await cache.match(cacheRequest);
+
+      if (cached) {
+        console.log('Cache hit:', { source, key });
+        return await cached.json() as T;
+      }
+    } catch (error) {
+      console.error('Cache read failed:', { source, key, error: String(error) });
+    }
+  }
+
+  console.log(fresh ? 'Cache refresh:' : 'Cache miss:', { source, key });
+  const data = await load();
+
+  try {
+    await cache.put(cacheRequest, new Response(JSON.stringify(data), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': `max-age=${CACHE_TTL_SECONDS[source]}`,
+      },
+    }));
+  } catch (error) {
+    console.error('Cache write failed:', { source, key, error: String(error) });
+  }
+
+  return data;
+}
+
+/**
+ * task와 그 안의 비동기 호출은 캐시를 읽지 않고 실행 (결과는 캐시에 다시 저장)
+ */
+export function runWithFreshCache<T>(task: () => Promise<T>): Promise<T> {
+  return freshCacheScope.run(true, task);
+}
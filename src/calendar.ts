@@ -0,0 +1,282 @@
+/**
+ * 거래소 휴장일/조기폐장 캘린더 모듈
+ *
+ * - KRX: 음력 명절, 대체공휴일, 선거일이 섞여 있어 연도별 휴장일 표를 사용
+ * - NYSE/NASDAQ: 규칙 기반으로 휴장일과 13:00 ET 조기폐장일 계산
+ */
+
+export interface MarketTime {
+  hour: number;
+  minute: number;
+}
+
+export interface TradingDayInfo {
+  date: string;               // YYYY-MM-DD (거래소 현지 날짜)
+  isTradingDay: boolean;
+  holidayName?: string;
+  closeTime?: MarketTime;     // 거래일인 경우 정규장 종료 시각 (현지 시간)
+  isEarlyClose?: boolean;
+}
+
+const US_REGULAR_CLOSE: MarketTime = { hour: 16, minute: 0 };
+const US_EARLY_CLOSE: MarketTime = { hour: 13, minute: 0 };
+const KRX_REGULAR_CLOSE: MarketTime = { hour: 15, minute: 30 };
+
+/**
+ * KRX 휴장일 (한국거래소 공시 기준, 매년 말 다음 해 일정 추가 필요)
+ */
+const KRX_HOLIDAYS: Record<string, string> = {
+  '2025-01-01': '신정',
+  '2025-01-27': '임시공휴일',
+  '2025-01-28': '설날 연휴',
+  '2025-01-29': '설날',
+  '2025-01-30': '설날 연휴',
+  '2025-03-03': '삼일절 대체공휴일',
+  '2025-05-01': '근로자의 날',
+  '2025-05-05': '어린이날·부처님오신날',
+  '2025-05-06': '대체공휴일',
+  '2025-06-03': '대통령 선거일',
+  '2025-06-06': '현충일',
+  '2025-08-15': '광복절',
+  '2025-10-03': '개천절',
+  '2025-10-06': '추석',
+  '2025-10-07': '추석 연휴',
+  '2025-10-08': '추석 대체공휴일',
+  '2025-10-09': '한글날',
+  '2025-12-25': '성탄절',
+  '2025-12-31': '연말 휴장일',
+
+  '2026-01-01': '신정',
+  '2026-02-16': '설날 연휴',
+  '2026-02-17': '설날',
+  '2026-02-18': '설날 연휴',
+  '2026-03-02': '삼일절 대체공휴일',
+  '2026-05-01': '근로자의 날',
+  '2026-05-05': '어린이날',
+  '2026-05-25': '부처님오신날 대체공휴일',
+  '2026-06-03': '전국동시지방선거일',
+  '2026-08-17': '광복절 대체공휴일',
+  '2026-09-24': '추석 연휴',
+  '2026-09-25': '추석',
+  '2026-10-05': '개천절 대체공휴일',
+  '2026-10-09': '한글날',
+  '2026-12-25': '성탄절',
+  '2026-12-31': '연말 휴장일',
+
+  '2027-01-01': '신정',
+  '2027-02-08': '설날 연휴',
+  '2027-02-09': '설날 대체공휴일',
+  '2027-03-01': '삼일절',
+  '2027-05-05': '어린이날',
+  '2027-05-13': '부처님오신날',
+  '2027-08-16': '광복절 대체공휴일',
+  '2027-09-14': '추석 연휴',
+  '2027-09-15': '추석',
+  '2027-09-16': '추석 연휴',
+  '2027-10-04': '개천절 대체공휴일',
+  '2027-10-11': '한글날 대체공휴일',
+  '2027-12-27': '성탄절 대체공휴일',
+  '2027-12-31': '연말 휴장일',
+};
+
+const KRX_HOLIDAY_YEARS = new Set(Object.keys(KRX_HOLIDAYS).map(date => date.slice(0, 4)));
+
+// 휴장일 표가 없는 연도에 사용하는 양력 고정 휴장일
+const KRX_FIXED_HOLIDAYS: Record<string, string> = {
+  '01-01': '신정',
+  '03-01': '삼일절',
+  '05-01': '근로자의 날',
+  '05-05': '어린이날',
+  '06-06': '현충일',
+  '08-15': '광복절',
+  '10-03': '개천절',
+  '10-09': '한글날',
+  '12-25': '성탄절',
+  '12-31': '연말 휴장일',
+};
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function parseDateString(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+}
+
+/**
+ * 요일 (0 = 일요일)
+ */
+function getWeekday(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function addDays(date: string, days: number): string {
+  const { year, month, day } = parseDateString(date);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return toDateString(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/**
+ * 해당 월의 n번째 특정 요일 (n = -1이면 마지막)
+ */
+function getNthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const firstWeekday = getWeekday(year, month, 1);
+    const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+    return toDateString(year, month, day);
+  }
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const lastWeekday = getWeekday(year, month, lastDay);
+  const day = lastDay - ((lastWeekday - weekday + 7) % 7);
+  return toDateString(year, month, day);
+}
+
+/**
+ * 부활절 날짜 (Anonymous Gregorian algorithm)
+ */
+function getEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return toDateString(year, month, day);
+}
+
+/**
+ * 주말 공휴일의 대체 휴장일 (토요일 → 금요일, 일요일 → 월요일)
+ */
+function getObservedDate(year: number, month: number, day: number): string {
+  const weekday = getWeekday(year, month, day);
+  const date = toDateString(year, month, day);
+
+  if (weekday === 6) return addDays(date, -1);
+  if (weekday === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * NYSE/NASDAQ 연간 휴장일
+ */
+function getUsHolidays(year: number): Record<string, string> {
+  const holidays: Record<string, string> = {};
+
+  // 신정이 토요일이면 전년도 12/31을 대체 휴장하지 않음 (NYSE 규칙)
+  if (getWeekday(year, 1, 1) !== 6) {
+    holidays[getObservedDate(year, 1, 1)] = "New Year's Day";
+  }
+
+  holidays[getNthWeekday(year, 1, 1, 3)] = 'Martin Luther King Jr. Day';
+  holidays[getNthWeekday(year, 2, 1, 3)] = "Washington's Birthday";
+  holidays[addDays(getEasterSunday(year), -2)] = 'Good Friday';
+  holidays[getNthWeekday(year, 5, 1, -1)] = 'Memorial Day';
+  holidays[getObservedDate(year, 6, 19)] = 'Juneteenth';
+  holidays[getObservedDate(year, 7, 4)] = 'Independence Day';
+  holidays[getNthWeekday(year, 9, 1, 1)] = 'Labor Day';
+  holidays[getNthWeekday(year, 11, 4, 4)] = 'Thanksgiving Day';
+  holidays[getObservedDate(year, 12, 25)] = 'Christmas Day';
+
+  return holidays;
+}
+
+/**
+ * NYSE/NASDAQ 조기폐장일 (13:00 ET)
+ */
+function getUsEarlyCloses(year: number): Set<string> {
+  const holidays = getUsHolidays(year);
+  const candidates = [
+    toDateString(year, 7, 3),                            // 독립기념일 전날
+    addDays(getNthWeekday(year, 11, 4, 4), 1),           // 추수감사절 다음날
+    toDateString(year, 12, 24),                          // 크리스마스 이브
+  ];
+
+  return new Set(candidates.filter(date => {
+    const { month, day } = parseDateString(date);
+    const weekday = getWeekday(year, month, day);
+    return weekday !== 0 && weekday !== 6 && !holidays[date];
+  }));
+}
+
+/**
+ * 특정 시각의 현지 날짜 (YYYY-MM-DD)
+ */
+export function getDateInTimeZone(timestamp: number, timeZone: string): string {
+  // en-CA 로케일은 YYYY-MM-DD 형식으로 출력
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(timestamp));
+}
+
+/**
+ * KRX 거래일 정보
+ */
+export function getKrxTradingDay(date: string): TradingDayInfo {
+  const { year, month, day } = parseDateString(date);
+  const weekday = getWeekday(year, month, day);
+
+  if (weekday === 0 || weekday === 6) {
+    return { date, isTradingDay: false, holidayName: '주말' };
+  }
+
+  const holidayName = KRX_HOLIDAY_YEARS.has(String(year))
+    ? KRX_HOLIDAYS[date]
+    : KRX_FIXED_HOLIDAYS[date.slice(5)];
+
+  if (holidayName) {
+    return { date, isTradingDay: false, holidayName };
+  }
+
+  return { date, isTradingDay: true, closeTime: KRX_REGULAR_CLOSE, isEarlyClose: false };
+}
+
+/**
+ * NYSE/NASDAQ 거래일 정보
+ */
+export function getUsTradingDay(date: string): TradingDayInfo {
+  const { year, month, day } = parseDateString(date);
+  const weekday = getWeekday(year, month, day);
+
+  if (weekday === 0 || weekday === 6) {
+    return { date, isTradingDay: false, holidayName: 'Weekend' };
+  }
+
+  const holidayName = getUsHolidays(year)[date];
+  if (holidayName) {
+    return { date, isTradingDay: false, holidayName };
+  }
+
+  const isEarlyClose = getUsEarlyCloses(year).has(date);
+
+  return {
+    date,
+    isTradingDay: true,
+    closeTime: isEarlyClose ? US_EARLY_CLOSE : US_REGULAR_CLOSE,
+    isEarlyClose,
+  };
+}
+
+/**
+ * KRX 휴장일 표가 등록된 연도인지 확인 (표가 없으면 양력 고정 휴장일만 반영됨)
+ */
+export function hasKrxHolidayTable(year: number): boolean {
+  return KRX_HOLIDAY_YEARS.has(String(year));
+}
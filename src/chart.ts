@@ -1,125 +1,148 @@
 /**
  * 차트 생성 모듈
- * QuickChart.io를 사용하여 차트 이미지 생성
+ * 워커 내부에서 PNG로 렌더링하고, 실패 시 QuickChart.io URL을 대체 경로로 사용
  */
 
-import { getNasdaqRecentPrices } from './scraper';
-
-// 네이버 주식 차트 API URL
-const CHART_API_URLS = {
-  KOSPI: 'https://api.stock.naver.com/chart/domestic/index/KOSPI?periodType=dayCandle',
-  USD: 'https://m.stock.naver.com/front-api/marketIndex/prices?category=exchange&reutersCode=FX_USDKRW&page=1',
-} as const;
+import {
+  DailyClosePrice,
+  getDomesticStockDailyCloses,
+  getDomesticStockData,
+  getFinnhubDailyCloses,
+  getUsIndexRecentCandles,
+  getUsIndexRecentPrices,
+  isDomesticStockQuery,
+  MARKET_NAMES,
+  MarketType,
+  IndexDailyCandle,
+  parseCommand,
+  US_CLOSE_INDEX_CODES,
+  UsIndexCode,
+} from './scraper';
+import { getMarketDailyCloses } from './providers';
+import {
+  buildChartImage,
+  ChartDataPoint,
+  ChartImage,
+  ChartRenderOptions,
+  ChartSeries,
+  getValueRange,
+  renderCandlestickChartSvg,
+  renderLineChartSvg,
+  renderMultiLineChartSvg,
+} from './renderer';
 
 // QuickChart API
 const QUICKCHART_URL = 'https://quickchart.io/chart';
 
-interface ChartDataPoint {
-  date: string;
-  value: number;
-}
+// 차트 기간 (최근 N거래일)
+export const CHART_PERIODS = [7, 30, 90, 365] as const;
+export type ChartPeriod = typeof CHART_PERIODS[number];
+export const DEFAULT_CHART_PERIOD: ChartPeriod = 30;
 
-// 네이버 차트 API 응답 타입 (코스피/코스닥)
-interface NaverIndexChartResponse {
-  priceInfos?: Array<{
-    localDate: string;
-    closePrice: number;
-  }>;
-}
+const CHART_TITLES: Record<MarketType, string> = {
+  kospi: '코스피 (KOSPI)',
+  kosdaq: '코스닥 (KOSDAQ)',
+  nasdaq: '나스닥 종합 (NASDAQ)',
+  usd: 'USD/KRW 환율',
+  eur: 'EUR/KRW 환율',
+  jpy: 'JPY/KRW 환율 (100엔)',
+  gbp: 'GBP/KRW 환율',
+  chf: 'CHF/KRW 환율',
+  cny: 'CNY/KRW 환율',
+  gold: '금 (USD/oz)',
+  wti: 'WTI 유가 (USD/bbl)',
+  us10y: '미국채 10년 금리 (%)',
+  kr3y: '국고채 3년 금리 (%)',
+};
 
-// 네이버 환율 API 응답 타입
-interface NaverExchangePriceItem {
-  localTradedAt: string;  // "2025-11-28"
-  closePrice: string;     // "1,469.10" (문자열, 쉼표 포함)
-}
+const CHART_COLORS: Record<MarketType, string> = {
+  kospi: '#e74c3c',
+  kosdaq: '#e67e22',
+  nasdaq: '#16a085',
+  usd: '#3498db',
+  eur: '#2c3e50',
+  jpy: '#9b59b6',
+  gbp: '#34495e',
+  chf: '#c0392b',
+  cny: '#d35400',
+  gold: '#f1c40f',
+  wti: '#7f8c8d',
+  us10y: '#2980b9',
+  kr3y: '#27ae60',
+};
 
-interface NaverExchangeApiResponse {
-  isSuccess: boolean;
-  result: NaverExchangePriceItem[];
-}
+// 미국 장마감 현황 지수 차트 (나스닥은 시장 차트와 동일)
+const US_INDEX_CHART_TITLES: Record<UsIndexCode, string> = {
+  '.DJI': '다우존스 (DJIA)',
+  '.INX': 'S&P 500',
+  '.IXIC': CHART_TITLES.nasdaq,
+  '.SOX': '필라델피아 반도체 (SOX)',
+};
 
-/**
- * 코스피/코스닥 차트 데이터 가져오기
- */
-async function fetchIndexChartData(): Promise<ChartDataPoint[]> {
-  try {
-    const response = await fetch(CHART_API_URLS.KOSPI, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': 'application/json',
-      },
-    });
+const US_INDEX_CHART_COLORS: Record<UsIndexCode, string> = {
+  '.DJI': '#2c3e50',
+  '.INX': '#2980b9',
+  '.IXIC': CHART_COLORS.nasdaq,
+  '.SOX': '#8e44ad',
+};
 
-    if (!response.ok) {
-      console.error(`KOSPI API error: ${response.status}`);
-      return [];
-    }
+// 장마감 현황 차트 기본 대상 (US_CLOSE_CHARTS 미설정 시)
+const DEFAULT_US_CLOSE_CHART_CODES: UsIndexCode[] = ['.IXIC'];
 
-    const data = await response.json() as NaverIndexChartResponse;
-    
-    if (!data.priceInfos || data.priceInfos.length === 0) {
-      console.error('No KOSPI price data');
-      return [];
-    }
+const FINNHUB_CHART_COLOR = '#8e44ad';
+const DOMESTIC_STOCK_CHART_COLOR = '#16a085';
 
-    const recentData = data.priceInfos.slice(-7);
-    
-    return recentData.map(item => {
-      const dateStr = item.localDate;
-      const month = dateStr.substring(4, 6);
-      const day = dateStr.substring(6, 8);
-      
-      return {
-        date: `${month}/${day}`,
-        value: item.closePrice,
-      };
-    });
-  } catch (error) {
-    console.error('Error fetching KOSPI chart data:', error);
-    return [];
-  }
+// 캔들 색상 (국내 관례: 상승 빨강, 하락 파랑)
+const CANDLE_UP_COLOR = '#e74c3c';
+const CANDLE_DOWN_COLOR = '#3498db';
+const CANDLE_UNCHANGED_COLOR = '#7f8c8d';
+
+// 거래량 막대가 차트 하단 1/4 영역만 차지하도록 축 최대값 배율 적용
+const VOLUME_AXIS_SCALE = 4;
+
+export type NasdaqChartStyle = 'line' | 'candle';
+
+export type ChartCommand =
+  | { action: 'chart'; query: string; period: ChartPeriod }
+  | { action: 'invalid'; reason: string };
+
+export type MarketChartResult =
+  | { status: 'ok'; chart: ChartImage; title: string; period: ChartPeriod }
+  | { status: 'empty'; title: string }
+  | { status: 'not_found'; query: string }
+  | { status: 'error'; query: string; reason: string };
+
+export const CHART_USAGE_TEXT = [
+  '사용법:',
+  '• 차트 코스피',
+  '• 차트 달러 90',
+  '• 차트 삼성전자 90',
+  '• 차트 AAPL 365',
+  `(기간: ${CHART_PERIODS.join(', ')}거래일, 기본 ${DEFAULT_CHART_PERIOD})`,
+].join('\n');
+
+function toChartData(prices: DailyClosePrice[]): ChartDataPoint[] {
+  return prices.map(item => ({
+    date: item.date,
+    value: item.closePrice,
+  }));
 }
 
 /**
- * USD 환율 차트 데이터 가져오기
+ * 시장별 최근 N거래일 차트 데이터 가져오기 (제공자 우선순위대로 시도)
  */
-async function fetchUsdChartData(): Promise<ChartDataPoint[]> {
-  try {
-    const response = await fetch(CHART_API_URLS.USD, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`USD API error: ${response.status}`);
-      return [];
-    }
-
-    const data = await response.json() as NaverExchangeApiResponse;
-    
-    if (!data.isSuccess || !data.result || data.result.length === 0) {
-      console.error('No USD price data in response');
-      return [];
-    }
+export async function fetchMarketHistory(
+  marketType: MarketType,
+  count: number,
+  finnhubApiKey?: string
+): Promise<ChartDataPoint[]> {
+  const history = await getMarketDailyCloses(marketType, count, finnhubApiKey);
 
-    // 최근 7개 데이터 (최신순으로 정렬되어 있으므로 reverse)
-    const recentData = data.result.slice(0, 7).reverse();
-    
-    return recentData.map(item => {
-      // localTradedAt: "2025-11-28"
-      const [, month, day] = item.localTradedAt.split('-');
-      
-      // closePrice: "1,469.10" -> 숫자로 변환
-      const value = parseFloat(item.closePrice.replace(/,/g, ''));
-      
-      return { date: `${month}/${day}`, value };
-    });
-  } catch (error) {
-    console.error('Error fetching USD chart data:', error);
-    return [];
+  if (history.provider && history.provider !== 'naver') {
+    console.warn(`${marketType} chart data served by fallback provider:`, history.provider);
   }
+
+  return toChartData(history.prices);
 }
 
 /**
@@ -135,9 +158,7 @@ function generateChartUrl(
   const values = data.map(d => d.value);
   
   // 최소/최대값 계산 (여유 있게)
-  const minValue = Math.min(...values);
-  const maxValue = Math.max(...values);
-  const padding = Math.max((maxValue - minValue) * 0.15, maxValue * 0.01, 1);
+  const range = getValueRange(values);
   
   const chartConfig = {
     type: 'line',
@@ -149,8 +170,8 @@ function generateChartUrl(
         fill: true,
         backgroundColor: `${color}30`,
         borderColor: color,
-        borderWidth: 3,
-        pointRadius: 5,
+        borderWidth: data.length > 90 ? 2 : 3,
+        pointRadius: data.length > 60 ? 0 : 5,
         pointBackgroundColor: color,
         tension: 0.3,
       }],
@@ -168,8 +189,8 @@ function generateChartUrl(
       },
       scales: {
         y: {
-          min: Math.floor(minValue - padding),
-          max: Math.ceil(maxValue + padding),
+          min: range.min,
+          max: range.max,
           ticks: {
             font: { size: 12 },
           },
@@ -188,38 +209,286 @@ function generateChartUrl(
 }
 
 /**
- * 나스닥 30거래일 차트 URL 생성
+ * 여러 시리즈 라인 차트 QuickChart URL 생성 (날짜가 없는 시리즈는 건너뛰어 연결)
  */
-export async function getNasdaqThirtyDayChartUrl(): Promise<string | null> {
-  try {
-    const prices = await getNasdaqRecentPrices();
-    console.log('NASDAQ chart data:', prices.length, 'points');
+function generateMultiLineChartUrl(
+  series: ChartSeries[],
+  title: string,
+  periodLabel: string
+): string {
+  const dates = [...new Set(series.flatMap(item => item.data.map(point => point.date)))].sort();
 
-    if (prices.length === 0) return null;
+  const chartConfig = {
+    type: 'line',
+    data: {
+      labels: dates.map(date => date.slice(5).replace('-', '/')),
+      datasets: series.map(item => {
+        const values = new Map(item.data.map(point => [point.date, point.value]));
 
-    const data = prices.map(item => ({
-      date: item.date,
-      value: item.closePrice,
-    }));
+        return {
+          label: item.label,
+          data: dates.map(date => values.get(date) ?? null),
+          fill: false,
+          borderColor: item.color,
+          backgroundColor: item.color,
+          borderWidth: 2,
+          pointRadius: 3,
+          spanGaps: true,
+          tension: 0.2,
+        };
+      }),
+    },
+    options: {
+      plugins: {
+        title: {
+          display: true,
+          text: `${title} - ${periodLabel}`,
+          font: { size: 18, weight: 'bold' },
+        },
+        legend: {
+          display: true,
+          position: 'top',
+        },
+      },
+      scales: {
+        y: {
+          ticks: {
+            font: { size: 12 },
+          },
+        },
+        x: {
+          ticks: {
+            font: { size: 12 },
+          },
+        },
+      },
+    },
+  };
+
+  const chartJson = encodeURIComponent(JSON.stringify(chartConfig));
+  return `${QUICKCHART_URL}?c=${chartJson}&w=600&h=400&bkg=white`;
+}
+
+/**
+ * 캔들스틱 + 거래량 QuickChart URL 생성 (chartjs-chart-financial)
+ */
+function generateCandlestickChartUrl(
+  candles: IndexDailyCandle[],
+  title: string,
+  periodLabel: string
+): string {
+  const range = getValueRange([
+    ...candles.map(candle => candle.lowPrice),
+    ...candles.map(candle => candle.highPrice),
+  ]);
+  const maxVolume = Math.max(...candles.map(candle => candle.volume), 1);
+
+  const getCandleColor = (candle: IndexDailyCandle) =>
+    candle.closePrice > candle.openPrice
+      ? CANDLE_UP_COLOR
+      : candle.closePrice < candle.openPrice
+        ? CANDLE_DOWN_COLOR
+        : CANDLE_UNCHANGED_COLOR;
 
-    return generateChartUrl(data, '나스닥 종합 (NASDAQ)', '#16a085', '최근 30거래일');
+  const chartConfig = {
+    type: 'candlestick',
+    data: {
+      datasets: [
+        {
+          label: title,
+          yAxisID: 'price',
+          data: candles.map(candle => ({
+            t: candle.timestamp,
+            o: candle.openPrice,
+            h: candle.highPrice,
+            l: candle.lowPrice,
+            c: candle.closePrice,
+          })),
+          color: {
+            up: CANDLE_UP_COLOR,
+            down: CANDLE_DOWN_COLOR,
+            unchanged: CANDLE_UNCHANGED_COLOR,
+          },
+        },
+        {
+          type: 'bar',
+          label: '거래량',
+          yAxisID: 'volume',
+          data: candles.map(candle => ({ t: candle.timestamp, y: candle.volume })),
+          backgroundColor: candles.map(candle => `${getCandleColor(candle)}80`),
+        },
+      ],
+    },
+    options: {
+      title: {
+        display: true,
+        text: `${title} - ${periodLabel}`,
+        fontSize: 18,
+        fontStyle: 'bold',
+      },
+      legend: {
+        display: false,
+      },
+      scales: {
+        xAxes: [{
+          type: 'time',
+          distribution: 'series',
+          offset: true,
+          time: { unit: 'day', displayFormats: { day: 'MM/DD' } },
+          ticks: { fontSize: 12, source: 'data', autoSkip: true, maxTicksLimit: 10 },
+        }],
+        yAxes: [
+          {
+            id: 'price',
+            position: 'right',
+            ticks: {
+              min: range.min,
+              max: range.max,
+              fontSize: 12,
+            },
+          },
+          {
+            id: 'volume',
+            position: 'left',
+            display: false,
+            gridLines: { display: false },
+            ticks: { min: 0, max: maxVolume * VOLUME_AXIS_SCALE },
+          },
+        ],
+      },
+    },
+  };
+
+  const chartJson = encodeURIComponent(JSON.stringify(chartConfig));
+  return `${QUICKCHART_URL}?c=${chartJson}&w=700&h=450&bkg=white`;
+}
+
+/**
+ * 라인 차트 이미지 생성 (워커 렌더링 PNG + QuickChart URL)
+ */
+function buildLineChart(
+  data: ChartDataPoint[],
+  title: string,
+  color: string,
+  periodLabel: string,
+  options: ChartRenderOptions
+): Promise<ChartImage> {
+  return buildChartImage(
+    generateChartUrl(data, title, color, periodLabel),
+    () => renderLineChartSvg(data, { title, color, periodLabel }),
+    options
+  );
+}
+
+/**
+ * 캔들스틱 차트 이미지 생성 (워커 렌더링 PNG + QuickChart URL)
+ */
+function buildCandlestickChart(
+  candles: IndexDailyCandle[],
+  title: string,
+  periodLabel: string,
+  options: ChartRenderOptions
+): Promise<ChartImage> {
+  const points = candles.map(candle => ({
+    date: candle.date,
+    open: candle.openPrice,
+    high: candle.highPrice,
+    low: candle.lowPrice,
+    close: candle.closePrice,
+    volume: candle.volume,
+  }));
+
+  return buildChartImage(
+    generateCandlestickChartUrl(candles, title, periodLabel),
+    () => renderCandlestickChartSvg(points, {
+      title,
+      periodLabel,
+      upColor: CANDLE_UP_COLOR,
+      downColor: CANDLE_DOWN_COLOR,
+      unchangedColor: CANDLE_UNCHANGED_COLOR,
+    }),
+    options
+  );
+}
+
+export function parseNasdaqChartStyle(value?: string): NasdaqChartStyle {
+  return value?.trim().toLowerCase() === 'candle' ? 'candle' : 'line';
+}
+
+/**
+ * 장마감 현황 차트를 붙일 미국 지수 (예: "IXIC,SOX" 또는 ".DJI,.INX", "none"이면 차트 없음)
+ */
+export function parseUsCloseChartCodes(value?: string): UsIndexCode[] {
+  const trimmed = value?.trim();
+
+  if (!trimmed) {
+    return DEFAULT_US_CLOSE_CHART_CODES;
+  }
+
+  if (trimmed.toLowerCase() === 'none') {
+    return [];
+  }
+
+  const codes = trimmed
+    .split(',')
+    .map(code => `.${code.trim().replace(/^\./, '').toUpperCase()}`)
+    .filter((code): code is UsIndexCode => (US_CLOSE_INDEX_CODES as string[]).includes(code));
+
+  return [...new Set(codes)];
+}
+
+/**
+ * 미국 지수 30거래일 차트 생성 (line: 종가 추이, candle: 캔들스틱 + 거래량)
+ */
+export async function getUsIndexThirtyDayChart(
+  code: UsIndexCode,
+  style: NasdaqChartStyle = 'line',
+  options: ChartRenderOptions = {}
+): Promise<ChartImage | null> {
+  const title = US_INDEX_CHART_TITLES[code];
+
+  if (style === 'candle') {
+    try {
+      const candles = await getUsIndexRecentCandles(code, 30);
+      console.log(`${code} candle chart data:`, candles.length, 'candles');
+
+      if (candles.length > 0) {
+        return await buildCandlestickChart(candles, title, '최근 30거래일', options);
+      }
+
+      console.warn(`${code} candle chart data empty, falling back to line chart`);
+    } catch (error) {
+      console.error(`Error generating ${code} candle chart:`, error);
+    }
+  }
+
+  try {
+    // 나스닥은 네이버 실패 시 Finnhub 일봉으로 대체
+    const data = code === '.IXIC'
+      ? await fetchMarketHistory('nasdaq', 30)
+      : toChartData(await getUsIndexRecentPrices(code, 30));
+    console.log(`${code} chart data:`, data.length, 'points');
+
+    if (data.length === 0) return null;
+
+    return await buildLineChart(data, title, US_INDEX_CHART_COLORS[code], '최근 30거래일', options);
   } catch (error) {
-    console.error('Error generating NASDAQ chart:', error);
+    console.error(`Error generating ${code} chart:`, error);
     return null;
   }
 }
 
 /**
- * 코스피 7일 차트 URL 생성
+ * 코스피 7일 차트 생성
  */
-export async function getKospiChartUrl(): Promise<string | null> {
+export async function getKospiChart(options: ChartRenderOptions = {}): Promise<ChartImage | null> {
   try {
-    const data = await fetchIndexChartData();
+    const data = await fetchMarketHistory('kospi', 7);
     console.log('KOSPI chart data:', data.length, 'points');
     
     if (data.length === 0) return null;
     
-    return generateChartUrl(data, '코스피 (KOSPI)', '#e74c3c');
+    return await buildLineChart(data, CHART_TITLES.kospi, CHART_COLORS.kospi, '최근 7일', options);
   } catch (error) {
     console.error('Error generating KOSPI chart:', error);
     return null;
@@ -227,16 +496,16 @@ export async function getKospiChartUrl(): Promise<string | null> {
 }
 
 /**
- * USD 환율 7일 차트 URL 생성
+ * USD 환율 7일 차트 생성
  */
-export async function getUsdChartUrl(): Promise<string | null> {
+export async function getUsdChart(options: ChartRenderOptions = {}): Promise<ChartImage | null> {
   try {
-    const data = await fetchUsdChartData();
+    const data = await fetchMarketHistory('usd', 7);
     console.log('USD chart data:', data.length, 'points');
     
     if (data.length === 0) return null;
     
-    return generateChartUrl(data, 'USD/KRW 환율', '#3498db');
+    return await buildLineChart(data, CHART_TITLES.usd, CHART_COLORS.usd, '최근 7일', options);
   } catch (error) {
     console.error('Error generating USD chart:', error);
     return null;
@@ -244,18 +513,153 @@ export async function getUsdChartUrl(): Promise<string | null> {
 }
 
 /**
- * 모든 차트 URL 가져오기
+ * "차트 <시장> [기간]" 명령어 파싱
  */
-export async function getAllChartUrls(): Promise<{
-  kospi: string | null;
-  usd: string | null;
+export function parseChartCommand(command: string): ChartCommand | null {
+  const match = command.trim().match(/^차트(?:\s+(.*))?$/);
+
+  if (!match) {
+    return null;
+  }
+
+  const args = (match[1] || '').trim().split(/\s+/).filter(Boolean);
+
+  if (args.length === 0) {
+    return { action: 'invalid', reason: '차트를 볼 시장을 입력해주세요.' };
+  }
+
+  const lastArg = args[args.length - 1];
+  const hasPeriod = args.length > 1 && /^\d+$/.test(lastArg);
+
+  if (!hasPeriod) {
+    return { action: 'chart', query: args.join(' '), period: DEFAULT_CHART_PERIOD };
+  }
+
+  const period = Number(lastArg);
+  if (!(CHART_PERIODS as readonly number[]).includes(period)) {
+    return { action: 'invalid', reason: `기간은 ${CHART_PERIODS.join(', ')} 중 하나로 입력해주세요.` };
+  }
+
+  return { action: 'chart', query: args.slice(0, -1).join(' '), period: period as ChartPeriod };
+}
+
+/**
+ * 시장 또는 Finnhub 심볼의 차트 생성
+ *
+ * 네이버 시세 별칭(parseCommand)을 우선 사용하고, 국내 종목(종목코드/한글 종목명)은 네이버 종목 차트,
+ * 나머지는 Finnhub 일봉으로 조회한다.
+ */
+export async function getMarketChart(
+  query: string,
+  period: ChartPeriod,
+  finnhubApiKey?: string,
+  options: ChartRenderOptions = {}
+): Promise<MarketChartResult> {
+  const periodLabel = `최근 ${period}거래일`;
+  const marketType = parseCommand(query) || parseCommand(query.replace(/\/KRW$/i, ''));
+
+  if (marketType) {
+    const data = await fetchMarketHistory(marketType, period, finnhubApiKey);
+    console.log(`${marketType} chart data:`, data.length, 'points');
+
+    if (data.length === 0) {
+      return { status: 'empty', title: MARKET_NAMES[marketType] };
+    }
+
+    return {
+      status: 'ok',
+      chart: await buildLineChart(data, CHART_TITLES[marketType], CHART_COLORS[marketType], periodLabel, options),
+      title: CHART_TITLES[marketType],
+      period,
+    };
+  }
+
+  // 6자리 종목코드나 한글 종목명은 네이버 국내 종목 차트
+  if (isDomesticStockQuery(query)) {
+    const stock = await getDomesticStockData(query);
+    if (stock.status !== 'ok') {
+      return stock;
+    }
+
+    const prices = await getDomesticStockDailyCloses(stock.data.code, period);
+    if (prices.length === 0) {
+      return { status: 'empty', title: stock.data.name };
+    }
+
+    return {
+      status: 'ok',
+      chart: await buildLineChart(toChartData(prices), stock.data.name, DOMESTIC_STOCK_CHART_COLOR, periodLabel, options),
+      title: stock.data.name,
+      period,
+    };
+  }
+
+  if (!finnhubApiKey) {
+    return { status: 'error', query, reason: 'Missing FINNHUB_API_KEY' };
+  }
+
+  const result = await getFinnhubDailyCloses(query, period, finnhubApiKey);
+  if (result.status !== 'ok') {
+    return result;
+  }
+
+  if (result.prices.length === 0) {
+    return { status: 'empty', title: result.name };
+  }
+
+  return {
+    status: 'ok',
+    chart: await buildLineChart(toChartData(result.prices), result.name, FINNHUB_CHART_COLOR, periodLabel, options),
+    title: result.name,
+    period,
+  };
+}
+
+/**
+ * 일일 브리핑 차트 모두 가져오기
+ */
+export async function getAllCharts(options: ChartRenderOptions = {}): Promise<{
+  kospi: ChartImage | null;
+  usd: ChartImage | null;
 }> {
   const [kospi, usd] = await Promise.all([
-    getKospiChartUrl(),
-    getUsdChartUrl(),
+    getKospiChart(options),
+    getUsdChart(options),
   ]);
 
-  console.log('Chart URLs generated:', { kospi: !!kospi, usd: !!usd });
+  console.log('Charts generated:', {
+    kospi: kospi ? (kospi.png ? 'png' : 'url') : null,
+    usd: usd ? (usd.png ? 'png' : 'url') : null,
+  });
 
   return { kospi, usd };
 }
+
+/**
+ * 여러 시장의 기간 누적 등락률 비교 차트 (값은 기준 종가 대비 % 변화, 날짜는 YYYY-MM-DD)
+ */
+export async function getMarketPerformanceChart(
+  markets: Array<{ marketType: MarketType; data: ChartDataPoint[] }>,
+  title: string,
+  periodLabel: string,
+  options: ChartRenderOptions = {}
+): Promise<ChartImage | null> {
+  const series: ChartSeries[] = markets
+    .filter(market => market.data.length > 0)
+    .map(market => ({
+      label: MARKET_NAMES[market.marketType],
+      color: CHART_COLORS[market.marketType],
+      data: market.data,
+    }));
+
+  if (series.length === 0) {
+    console.warn(`${title} chart skipped: no data`);
+    return null;
+  }
+
+  return buildChartImage(
+    generateMultiLineChartUrl(series, title, periodLabel),
+    () => renderMultiLineChartSvg(series, { title, periodLabel, valueSuffix: '%' }),
+    options
+  );
+}
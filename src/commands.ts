@@ -0,0 +1,172 @@
+/**
+ * 봇 명령어 레지스트리
+ *
+ * - 텔레그램 명령어 메뉴(setMyCommands) 한국어/영어 목록
+ * - /start, /help 도움말 (시세 별칭은 MARKET_COMMAND_ALIASES에서 생성)
+ * - 그룹 채팅의 `/kospi@OurBot` 형태 명령어 정규화
+ */
+
+import { MARKET_COMMAND_ALIASES, MARKET_NAMES, MarketType, parseCommand } from './scraper';
+
+export type CommandLanguage = 'ko' | 'en';
+
+export interface BotCommandDefinition {
+  command: string;                              // 슬래시 없이 소문자 (텔레그램 제한: 1~32자, a-z0-9_)
+  description: Record<CommandLanguage, string>;
+}
+
+export type NormalizedCommand =
+  | { status: 'ok'; text: string }
+  | { status: 'other_bot'; botUsername: string };
+
+export type HelpCommand = 'start' | 'help';
+
+// 시장 슬래시 명령어 (/kospi, /usd ...) 영어 설명
+const MARKET_COMMAND_DESCRIPTIONS_EN: Record<MarketType, string> = {
+  kospi: 'KOSPI index',
+  kosdaq: 'KOSDAQ index',
+  nasdaq: 'NASDAQ Composite',
+  usd: 'USD/KRW exchange rate',
+  jpy: 'JPY/KRW exchange rate (100 yen)',
+  eur: 'EUR/KRW exchange rate',
+  gbp: 'GBP/KRW exchange rate',
+  chf: 'CHF/KRW exchange rate',
+  cny: 'CNY/KRW exchange rate',
+  gold: 'Gold futures (USD/oz)',
+  wti: 'WTI crude oil (USD/bbl)',
+  us10y: 'US 10-year Treasury yield',
+  kr3y: 'Korea 3-year Treasury yield',
+};
+
+const MARKET_TYPES = Object.keys(MARKET_COMMAND_ALIASES) as MarketType[];
+
+// 그룹 대화에서 한 단어로 흔히 쓰여 시세 요청으로 오인식되는 별칭 (그룹에서는 다른 별칭이나 슬래시 명령어 사용)
+const GROUP_CHAT_IGNORED_ALIASES = new Set(['금', '유가']);
+
+export const BOT_COMMANDS: BotCommandDefinition[] = [
+  { command: 'start', description: { ko: '봇 소개와 사용법', en: 'About this bot' } },
+  { command: 'help', description: { ko: '전체 명령어 도움말', en: 'List all commands' } },
+  ...MARKET_TYPES.map(marketType => ({
+    command: marketType,
+    description: { ko: `${MARKET_NAMES[marketType]} 시세`, en: MARKET_COMMAND_DESCRIPTIONS_EN[marketType] },
+  })),
+  { command: 'stock', description: { ko: '국내 주식 시세 (종목명 또는 종목코드)', en: 'KRX stock quote by name or code' } },
+  { command: 'history', description: { ko: '저장된 종가 이력 조회', en: 'Stored closing price history' } },
+  { command: 'watch', description: { ko: '관심 종목 추가', en: 'Add a symbol to the watchlist' } },
+  { command: 'unwatch', description: { ko: '관심 종목 삭제', en: 'Remove a symbol from the watchlist' } },
+  { command: 'watchlist', description: { ko: '관심 종목 목록', en: 'Show the watchlist' } },
+  { command: 'subscribe', description: { ko: '정기 발송 구독', en: 'Subscribe to scheduled reports' } },
+  { command: 'unsubscribe', description: { ko: '정기 발송 구독 해지', en: 'Unsubscribe from scheduled reports' } },
+];
+
+/**
+ * 그룹 채팅의 `/명령어@봇이름` 접미사 제거
+ *
+ * botUsername이 설정되어 있으면 다른 봇을 지정한 명령어는 other_bot으로 구분한다.
+ */
+export function normalizeCommandText(text: string, botUsername?: string): NormalizedCommand {
+  const trimmed = text.trim();
+  const match = trimmed.match(/^(\/[^\s@]+)@(\w+)(.*)$/s);
+
+  if (!match) {
+    return { status: 'ok', text: trimmed };
+  }
+
+  const [, command, mentioned, rest] = match;
+  const expected = botUsername?.replace(/^@/, '');
+
+  if (expected && mentioned.toLowerCase() !== expected.toLowerCase()) {
+    return { status: 'other_bot', botUsername: mentioned };
+  }
+
+  return { status: 'ok', text: `${command}${rest}` };
+}
+
+/**
+ * /start, /help 명령어 파싱
+ */
+export function parseHelpCommand(command: string): HelpCommand | null {
+  const match = command.trim().match(/^\/(start|help)(?:\s.*)?$/is);
+  return match ? match[1].toLowerCase() as HelpCommand : null;
+}
+
+/**
+ * 시세 명령어 파싱 (별칭 또는 /kospi 같은 슬래시 명령어)
+ */
+export function parseMarketCommand(command: string, isGroupChat = false): MarketType | null {
+  const trimmed = command.trim();
+  const slashMatch = trimmed.match(/^\/([a-z0-9]+)$/i);
+
+  if (slashMatch) {
+    const name = slashMatch[1].toLowerCase();
+    return (MARKET_TYPES as string[]).includes(name) ? name as MarketType : null;
+  }
+
+  if (isGroupChat && GROUP_CHAT_IGNORED_ALIASES.has(trimmed)) {
+    return null;
+  }
+
+  return parseCommand(trimmed);
+}
+
+/**
+ * 도움말 텍스트 (HTML 이스케이프 전 일반 텍스트)
+ */
+export function buildHelpText(): string {
+  const marketLines = MARKET_TYPES.map(marketType =>
+    `• ${MARKET_NAMES[marketType]}: /${marketType}, ${MARKET_COMMAND_ALIASES[marketType].join(', ')}`
+  );
+
+  return [
+    '📌 시세 조회',
+    ...marketLines,
+    '• 국내 주식: 주식 삼성전자, 주식 005930, ?카카오',
+    '• 전세계 주식/지수/가상화폐: ?AAPL, ?^GSPC, ?BTC-USD',
+    '',
+    '📈 차트',
+    '• 차트 코스피, 차트 달러 90, 차트 삼성전자, 차트 AAPL 365',
+    '',
+    '💱 환전',
+    '• 100달러, 5만엔, 1000000원 USD, 환전 100 EUR JPY',
+    '',
+    '🌶️ 김치 프리미엄',
+    '• 김프, 김프 BTC, 김프 ETH',
+    '',
+    '🔔 가격 알림',
+    '• 알림 코스피 > 2700, 알림 USD/KRW -1%, 알림 목록, 알림 삭제 1',
+    '',
+    '⭐ 관심 종목',
+    '• /watch AAPL, /unwatch AAPL, /watchlist',
+    '',
+    '🗂 시세 이력',
+    '• /history 코스피, /history 달러 30',
+    '',
+    '📬 정기 발송',
+    '• /subscribe daily, /subscribe nasdaq, /subscribe recap, /subscribe overnight, /unsubscribe',
+    '• now - 일일 브리핑 즉시 받기',
+    '',
+    '💬 인라인 모드',
+    '• 다른 채팅방에서 @봇이름 코스피',
+  ].join('\n');
+}
+
+/**
+ * /start 환영 메시지 (HTML 이스케이프 전 일반 텍스트)
+ */
+export function buildStartText(): string {
+  return [
+    '👋 안녕하세요! 국내외 지수, 환율, 해외 주식 시세를 알려드리는 금융 봇입니다.',
+    '',
+    buildHelpText(),
+  ].join('\n');
+}
+
+/**
+ * setMyCommands 요청용 명령어 목록
+ */
+export function getBotCommandList(language: CommandLanguage): Array<{ command: string; description: string }> {
+  return BOT_COMMANDS.map(definition => ({
+    command: definition.command,
+    description: definition.description[language],
+  }));
+}
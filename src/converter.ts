@@ -0,0 +1,201 @@
+/**
+ * 환전 계산 모듈 (네이버 환율 기준)
+ *
+ * - `100달러`, `5만엔`: 외화 → 원화
+ * - `1000000원 USD`: 원화 → 외화
+ * - `환전 250 EUR`, `환전 100 EUR JPY`: 외화 간 환산은 원화 환율을 거쳐 계산
+ */
+
+import { ExchangeRate, getKrwExchangeRates } from './scraper';
+
+const CONVERT_COMMAND_PREFIX = '환전';
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  '원': 'KRW',
+  '원화': 'KRW',
+  '달러': 'USD',
+  '불': 'USD',
+  '엔': 'JPY',
+  '엔화': 'JPY',
+  '유로': 'EUR',
+  '위안': 'CNY',
+  '위안화': 'CNY',
+  '파운드': 'GBP',
+  '프랑': 'CHF',
+  '스위스프랑': 'CHF',
+};
+
+const AMOUNT_UNITS: Record<string, number> = {
+  '천': 1_000,
+  '만': 10_000,
+  '억': 100_000_000,
+};
+
+export interface ConvertRequest {
+  amount: number;
+  from: string;
+  to: string;
+}
+
+export type ConvertCommand =
+  | { action: 'convert'; request: ConvertRequest }
+  | { action: 'invalid'; reason: string };
+
+export interface CurrencyConversion extends ConvertRequest {
+  converted: number;
+  rate: number;             // 1 from = rate to
+  fromRate: ExchangeRate;
+  toRate: ExchangeRate;
+}
+
+export type ConversionResult =
+  | { status: 'ok'; conversion: CurrencyConversion }
+  | { status: 'unsupported'; currency: string }
+  | { status: 'error'; reason: string };
+
+export const CONVERT_USAGE_TEXT = [
+  '사용법:',
+  '• 100달러',
+  '• 5만엔',
+  '• 1000000원 USD',
+  '• 환전 250 EUR',
+  '• 환전 100 EUR JPY',
+].join('\n');
+
+const KRW_RATE: ExchangeRate = {
+  code: 'KRW',
+  krwPerUnit: 1,
+  quotedRate: '1',
+  quoteUnit: 1,
+};
+
+/**
+ * 통화 별칭/코드를 ISO 코드로 변환
+ */
+function normalizeCurrency(value: string, requireUpperCase = false): string | null {
+  const trimmed = value.trim();
+  // constructor 같은 상속 키가 통화 별칭으로 인식되지 않도록 자체 키만 확인
+  if (Object.hasOwn(CURRENCY_ALIASES, trimmed)) return CURRENCY_ALIASES[trimmed];
+
+  const upper = trimmed.toUpperCase();
+  if (requireUpperCase && trimmed !== upper) return null;
+
+  return /^[A-Z]{3}$/.test(upper) ? upper : null;
+}
+
+/**
+ * 한국어 단위가 섞인 금액 파싱 (예: "5만", "1억 2,000만", "1,000,000", "1.5만")
+ */
+export function parseKoreanAmount(value: string): number | null {
+  const compact = value.replace(/[,\s]/g, '');
+  if (!compact || !/^[\d.천만억]+$/.test(compact) || !/^\d/.test(compact)) {
+    return null;
+  }
+
+  let total = 0;
+  let consumed = 0;
+  const pattern = /(\d+(?:\.\d+)?)([천만억]?)/g;
+
+  for (const match of compact.matchAll(pattern)) {
+    if (match.index !== consumed) return null;
+
+    const [token, number, unit] = match;
+    total += Number(number) * (unit ? AMOUNT_UNITS[unit] : 1);
+    consumed += token.length;
+  }
+
+  if (consumed !== compact.length || !Number.isFinite(total) || total <= 0) {
+    return null;
+  }
+
+  return total;
+}
+
+/**
+ * 환전 명령어 파싱
+ *
+ * "환전"으로 시작하지 않는 입력은 금액+통화 형식이 정확히 맞을 때만 명령어로 인식한다.
+ */
+export function parseConvertCommand(command: string): ConvertCommand | null {
+  const trimmed = command.trim();
+  const hasPrefix = trimmed === CONVERT_COMMAND_PREFIX || trimmed.startsWith(`${CONVERT_COMMAND_PREFIX} `);
+  const body = hasPrefix ? trimmed.slice(CONVERT_COMMAND_PREFIX.length).trim() : trimmed;
+
+  // 숫자로 시작하는 금액 부분(쉼표, 천/만/억 단위 포함)과 통화 부분 분리
+  const amountMatch = body.match(/^\d[\d.,\s천만억]*/);
+  const currencyTokens = amountMatch
+    ? body.slice(amountMatch[0].length).trim().split(/\s+/).filter(token => !['→', '->', 'to', 'TO'].includes(token))
+    : [];
+
+  if (!amountMatch || currencyTokens.length === 0 || currencyTokens.length > 2 || !currencyTokens[0]) {
+    return hasPrefix ? { action: 'invalid', reason: '환전할 금액과 통화를 입력해주세요.' } : null;
+  }
+
+  const [rawFrom, rawTo] = currencyTokens;
+  const amount = parseKoreanAmount(amountMatch[0]);
+  // 접두어 없는 일반 대화("3 way")를 환전으로 오인하지 않도록 통화 코드는 대문자만 허용
+  const from = normalizeCurrency(rawFrom, !hasPrefix);
+  const to = rawTo ? normalizeCurrency(rawTo, !hasPrefix) : null;
+
+  if (amount === null || !from || (rawTo && !to)) {
+    return hasPrefix ? { action: 'invalid', reason: '금액 또는 통화를 이해하지 못했습니다.' } : null;
+  }
+
+  if (from === 'KRW' && !to) {
+    return hasPrefix
+      ? { action: 'invalid', reason: '원화는 바꿀 통화를 함께 입력해주세요. 예: 1000000원 USD' }
+      : null;
+  }
+
+  const target = to || 'KRW';
+  if (from === target) {
+    return hasPrefix ? { action: 'invalid', reason: '같은 통화끼리는 환전할 수 없습니다.' } : null;
+  }
+
+  return { action: 'convert', request: { amount, from, to: target } };
+}
+
+/**
+ * 네이버 원화 환율로 환전 계산 (외화 간 환산은 원화를 거쳐 계산)
+ */
+export async function convertCurrency(request: ConvertRequest): Promise<ConversionResult> {
+  const rates = await getKrwExchangeRates();
+
+  if (!rates) {
+    return { status: 'error', reason: 'Failed to fetch exchange rates' };
+  }
+
+  const findRate = (code: string): ExchangeRate | undefined =>
+    code === 'KRW' ? KRW_RATE : rates.find(rate => rate.code === code);
+
+  const fromRate = findRate(request.from);
+  if (!fromRate) return { status: 'unsupported', currency: request.from };
+
+  const toRate = findRate(request.to);
+  if (!toRate) return { status: 'unsupported', currency: request.to };
+
+  const rate = fromRate.krwPerUnit / toRate.krwPerUnit;
+
+  return {
+    status: 'ok',
+    conversion: {
+      ...request,
+      converted: request.amount * rate,
+      rate,
+      fromRate,
+      toRate,
+    },
+  };
+}
+
+/**
+ * 통화별 금액 표시 (원화/엔화는 소수점 없이)
+ */
+export function formatCurrencyAmount(amount: number, currency: string): string {
+  const fractionDigits = currency === 'KRW' || currency === 'JPY' ? 0 : 2;
+
+  return `${amount.toLocaleString('en-US', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  })} ${currency}`;
+}
@@ -0,0 +1,211 @@
+/**
+ * 오프라인 fixture 모드 모듈
+ *
+ * FIXTURE_MODE=true이면 네이버/Finnhub/업비트 요청을 fixtures/*.json에 기록된 응답으로 대신하고,
+ * 텔레그램 API 호출은 실제로 보내지 않고 기록만 한다. /replay 엔드포인트는 모드와 관계없이
+ * 요청 단위로 fixture 모드를 켜고(runWithFixtureMode), 텔레그램 호출은 요청마다 만든 기록 목록에 모으며,
+ * BOT_STATE 쓰기는 요청 동안만 메모리에 반영한다(createReplayKv). 같은 isolate에서 처리 중인
+ * 실제 웹훅 요청에는 영향을 주지 않는다.
+ *
+ * fixture 키 형식:
+ * - 네이버, 업비트: 요청 URL 전체
+ * - Finnhub: 경로 + 정렬된 쿼리 (token, from, to 제외) 예: /quote?symbol=AAPL
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { BotStateKv } from './kv';
+
+const FINNHUB_HOST = 'finnhub.io';
+// 요청마다 달라지는 쿼리 (API 키, 조회 기간)
+const FINNHUB_VOLATILE_PARAMS = new Set(['token', 'from', 'to']);
+
+export interface CapturedTelegramCall {
+  method: string;
+  params: Record<string, unknown>;
+}
+
+let fixturesPromise: Promise<Record<string, unknown>> | null = null;
+
+let fixtureMode = false;
+// /replay처럼 요청 단위로 켠 fixture 모드 (환경변수 설정보다 우선)
+const fixtureModeScope = new AsyncLocalStorage<boolean>();
+let nextMessageId = 1;
+
+/**
+ * 환경변수로 fixture 모드 설정 (요청/Cron 처리 시작 시 호출)
+ */
+export function configureFixtureMode(value?: string): void {
+  fixtureMode = ['1', 'true', 'yes'].includes((value || '').trim().toLowerCase());
+}
+
+export function isFixtureMode(): boolean {
+  return fixtureModeScope.getStore() ?? fixtureMode;
+}
+
+/**
+ * task와 그 안의 비동기 호출을 fixture 모드로 실행
+ */
+export function runWithFixtureMode<T>(task: () => Promise<T>): Promise<T> {
+  return fixtureModeScope.run(true, task);
+}
+
+function getFixtureKey(url: string): string {
+  const parsed = new URL(url);
+
+  if (!parsed.hostname.endsWith(FINNHUB_HOST)) {
+    return url;
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !FINNHUB_VOLATILE_PARAMS.has(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const path = parsed.pathname.replace(/^\/api\/v1/, '');
+  return params ? `${path}?${params}` : path;
+}
+
+/**
+ * 기록 응답은 fixture 모드에서 처음 필요할 때 불러온다 (일반 요청 처리 중에는 읽지 않음)
+ */
+function loadFixtures(): Promise<Record<string, unknown>> {
+  fixturesPromise ??= Promise.all([
+    import('../fixtures/naver.json'),
+    import('../fixtures/finnhub.json'),
+    import('../fixtures/upbit.json'),
+  ]).then(modules => Object.assign({}, ...modules.map(module => module.default)));
+
+  return fixturesPromise;
+}
+
+/**
+ * 외부 API 요청 (fixture 모드에서는 기록된 응답, 없으면 404)
+ */
+export async function fetchWithFixtures(url: string, init?: RequestInit): Promise<Response> {
+  if (!isFixtureMode()) {
+    return fetch(url, init);
+  }
+
+  const key = getFixtureKey(url);
+  const fixtures = await loadFixtures();
+
+  if (!Object.hasOwn(fixtures, key)) {
+    console.warn('Fixture not found:', key);
+    return new Response(JSON.stringify({ error: 'fixture not found', key }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return new Response(JSON.stringify(fixtures[key]), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function summarizeFormData(form: FormData): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+
+  // workers-types의 FormData.forEach는 값을 string으로만 선언하지만 업로드 파일은 File로 들어옴
+  form.forEach((value, key) => {
+    const entry = value as File | string;
+    params[key] = typeof entry === 'string'
+      ? entry
+      : { filename: entry.name, type: entry.type, size: entry.size };
+  });
+
+  return params;
+}
+
+/**
+ * 텔레그램 호출을 보내지 않고 기록 (응답은 성공으로 가정, sink가 없으면 로그로 남김)
+ */
+export function captureTelegramCall(
+  method: string,
+  params: Record<string, unknown> | FormData,
+  sink?: CapturedTelegramCall[]
+): unknown {
+  const recordedParams = params instanceof FormData ? summarizeFormData(params) : params;
+  const call = { method, params: recordedParams };
+
+  if (sink) {
+    sink.push(call);
+  } else {
+    console.log('Captured Telegram call:', JSON.stringify(call));
+  }
+
+  if (!method.startsWith('send') && method !== 'editMessageText') {
+    return true;
+  }
+
+  return {
+    message_id: nextMessageId++,
+    date: Math.floor(Date.now() / 1000),
+    chat: { id: Number(recordedParams.chat_id), type: 'private' },
+  };
+}
+
+/**
+ * /replay용 KV (읽기는 실제 BOT_STATE, 쓰기·삭제는 요청 동안 메모리에만 반영)
+ */
+export function createReplayKv(kv: BotStateKv | undefined): BotStateKv {
+  // null은 이번 요청에서 삭제한 키
+  const overlay = new Map<string, string | null>();
+
+  const readText = async (key: string): Promise<string | null> => {
+    if (overlay.has(key)) {
+      return overlay.get(key) ?? null;
+    }
+
+    return kv ? kv.get(key) : null;
+  };
+
+  async function get(key: string): Promise<string | null>;
+  async function get<T>(key: string, type: 'json'): Promise<T | null>;
+  async function get(key: string, type?: 'json'): Promise<unknown> {
+    const value = await readText(key);
+    return value !== null && type === 'json' ? JSON.parse(value) : value;
+  }
+
+  return {
+    get,
+
+    async put(key, value) {
+      overlay.set(key, value);
+    },
+
+    async delete(key) {
+      overlay.set(key, null);
+    },
+
+    async list(options = {}) {
+      const prefix = options.prefix || '';
+      const names = new Set<string>();
+      let cursor: string | undefined;
+
+      // 메모리 변경분과 합치기 위해 실제 목록을 모두 읽고 한 페이지로 돌려준다
+      do {
+        if (!kv) break;
+        const page = await kv.list({ prefix, cursor });
+        page.keys.forEach(key => names.add(key.name));
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+
+      for (const [key, value] of overlay) {
+        if (!key.startsWith(prefix)) continue;
+
+        if (value === null) {
+          names.delete(key);
+        } else {
+          names.add(key);
+        }
+      }
+
+      return {
+        keys: [...names].sort().map(name => ({ name })),
+        list_complete: true,
+      };
+    },
+  };
+}
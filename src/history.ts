@@ -0,0 +1,202 @@
+/**
+ * 시장 데이터 스냅샷 저장 및 /history 조회 모듈 (Cloudflare D1)
+ *
+ * 스키마는 migrations/0001_market_snapshots.sql 참고
+ */
+
+import { DailyMarketSummary, MarketSummaryItem, MarketType, parseCommand, UsIndexCloseStatus } from './scraper';
+
+export const DEFAULT_HISTORY_DAYS = 7;
+export const MAX_HISTORY_DAYS = 60;
+
+type SnapshotKind = 'daily-market-summary' | 'nasdaq-close-status';
+
+// 일일 브리핑에서 종가로 저장하는 시장 (관심 종목 제외)
+// (원자재·금리는 BRIEFING_COMMODITIES 설정 시에만 요약에 포함)
+const DAILY_SUMMARY_MARKETS: Array<Exclude<MarketType, 'nasdaq'>> = [
+  'kospi',
+  'kosdaq',
+  'usd',
+  'eur',
+  'jpy',
+  'gbp',
+  'chf',
+  'cny',
+  'gold',
+  'wti',
+  'us10y',
+  'kr3y',
+];
+
+export interface MarketHistoryRow {
+  date: string;
+  close: number;
+  valueText: string;
+  change: number | null;
+  changePercent: number | null;
+}
+
+export type HistoryCommand =
+  | { action: 'history'; marketType: MarketType; days: number }
+  | { action: 'invalid'; reason: string };
+
+export const HISTORY_USAGE_TEXT = [
+  '사용법:',
+  '• /history 코스피',
+  '• /history 달러 30',
+  `(기간 최대 ${MAX_HISTORY_DAYS}일, 기본 ${DEFAULT_HISTORY_DAYS}일)`,
+].join('\n');
+
+interface MarketCloseRecord {
+  date: string;
+  close: number;
+  value_text: string;
+}
+
+/**
+ * /history <시장> [일수] 명령어 파싱
+ */
+export function parseHistoryCommand(command: string): HistoryCommand | null {
+  const match = command.trim().match(/^\/history(?:@\w+)?(?:\s+(.*))?$/i);
+
+  if (!match) {
+    return null;
+  }
+
+  const args = (match[1] || '').trim().split(/\s+/).filter(Boolean);
+
+  if (args.length === 0) {
+    return { action: 'invalid', reason: '조회할 시장을 입력해주세요.' };
+  }
+
+  const marketType = parseCommand(args[0]);
+  if (!marketType) {
+    return { action: 'invalid', reason: `"${args[0]}"은(는) 지원하지 않는 시장입니다.` };
+  }
+
+  if (args.length === 1) {
+    return { action: 'history', marketType, days: DEFAULT_HISTORY_DAYS };
+  }
+
+  const days = Number(args[1]);
+  if (!Number.isInteger(days) || days <= 0 || days > MAX_HISTORY_DAYS) {
+    return { action: 'invalid', reason: `기간은 1~${MAX_HISTORY_DAYS}일 사이로 입력해주세요.` };
+  }
+
+  return { action: 'history', marketType, days };
+}
+
+function parseClose(value?: string | null): number | null {
+  if (!value) return null;
+
+  const parsed = Number(value.replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function buildSnapshotStatement(
+  db: D1Database,
+  date: string,
+  kind: SnapshotKind,
+  payload: unknown,
+  recordedAt: string
+): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO market_snapshots (date, kind, payload, recorded_at)
+       VALUES (?1, ?2, ?3, ?4)
+       ON CONFLICT (date, kind) DO UPDATE SET payload = excluded.payload, recorded_at = excluded.recorded_at`
+    )
+    .bind(date, kind, JSON.stringify(payload), recordedAt);
+}
+
+function buildCloseStatement(
+  db: D1Database,
+  date: string,
+  market: MarketType,
+  item: MarketSummaryItem | undefined,
+  recordedAt: string
+): D1PreparedStatement | null {
+  if (!item?.value) return null;
+  const close = parseClose(item.value);
+  if (close === null) return null;
+
+  return db
+    .prepare(
+      `INSERT INTO market_closes (date, market, close, value_text, recorded_at)
+       VALUES (?1, ?2, ?3, ?4, ?5)
+       ON CONFLICT (date, market) DO UPDATE SET
+         close = excluded.close,
+         value_text = excluded.value_text,
+         recorded_at = excluded.recorded_at`
+    )
+    .bind(date, market, close, item.value, recordedAt);
+}
+
+/**
+ * 일일 시장 요약 스냅샷 저장 (date: KST 기준 YYYY-MM-DD)
+ */
+export async function recordDailyMarketSummary(
+  db: D1Database,
+  date: string,
+  summary: DailyMarketSummary
+): Promise<void> {
+  const recordedAt = new Date().toISOString();
+  const { watchlist: _watchlist, ...marketSummary } = summary;
+
+  const statements = [
+    buildSnapshotStatement(db, date, 'daily-market-summary', marketSummary, recordedAt),
+    ...DAILY_SUMMARY_MARKETS.map(market => buildCloseStatement(db, date, market, summary[market], recordedAt)),
+  ].filter((statement): statement is D1PreparedStatement => statement !== null);
+
+  await db.batch(statements);
+}
+
+/**
+ * 나스닥 장마감 현황 스냅샷 저장 (현지 거래일 기준, 다른 미국 지수는 /history 대상이 아니라 저장하지 않음)
+ */
+export async function recordNasdaqCloseStatus(db: D1Database, status: UsIndexCloseStatus): Promise<void> {
+  const date = status.localTradedAt.slice(0, 10);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error(`Invalid NASDAQ localTradedAt: ${status.localTradedAt}`);
+  }
+
+  const recordedAt = new Date().toISOString();
+  const statements = [
+    buildSnapshotStatement(db, date, 'nasdaq-close-status', status, recordedAt),
+    buildCloseStatement(db, date, 'nasdaq', status, recordedAt),
+  ].filter((statement): statement is D1PreparedStatement => statement !== null);
+
+  await db.batch(statements);
+}
+
+/**
+ * 저장된 종가 이력 조회 (최신순, 전일 대비 변동 포함)
+ */
+export async function getMarketHistory(
+  db: D1Database,
+  marketType: MarketType,
+  days: number
+): Promise<MarketHistoryRow[]> {
+  // 가장 오래된 행의 전일 대비 계산을 위해 하루치 더 조회
+  const { results } = await db
+    .prepare('SELECT date, close, value_text FROM market_closes WHERE market = ?1 ORDER BY date DESC LIMIT ?2')
+    .bind(marketType, days + 1)
+    .all<MarketCloseRecord>();
+
+  return results.slice(0, days).map((record, index) => {
+    const previous = results[index + 1];
+    const change = previous ? record.close - previous.close : null;
+    const changePercent = previous && previous.close !== 0 && change !== null
+      ? (change / previous.close) * 100
+      : null;
+
+    return {
+      date: record.date,
+      close: record.close,
+      valueText: record.value_text,
+      change,
+      changePercent,
+    };
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * 중복 처리 방지 모듈
+ *
+ * - 웹훅 재전송: 처리 중인 업데이트가 늦게 응답하면 텔레그램이 같은 update_id를 다시 보낸다.
+ * - 정기 발송 중복: 배포 전후로 Cron이 두 번 실행될 수 있어 작업·날짜별 발송 키를 남긴다.
+ *
+ * 처리 시작 전에 키를 먼저 기록해 진행 중인 요청의 재전송도 걸러낸다. KV는 최종 일관성이라
+ * 완전한 잠금은 아니며, KV 오류 시에는 처리를 허용한다.
+ * 키: dedupe:update:<update_id>, dedupe:delivery:<job>:<date>[:<chatId>|:manual]
+ */
+
+import { BotStateKv } from './kv';
+
+export type DeliveryJob =
+  | 'daily-briefing'
+  | 'weekly-recap'
+  | 'monthly-recap'
+  | 'us-overnight-briefing'
+  | 'nasdaq-close-status';
+
+export interface DeliveryTarget {
+  job: DeliveryJob;
+  date: string;       // YYYY-MM-DD (작업 기준 시간대)
+  chatId?: string;    // 없으면 구독자 전체 발송, 있으면 해당 채팅방 단건 발송
+  manual?: boolean;   // 수동 전체 발송 (/test-scheduled): Cron 발송 키를 선점하지 않도록 따로 기록
+}
+
+export type DeliveryClaim =
+  | { status: 'claimed'; key: string }
+  | { status: 'duplicate'; key: string; claimedAt: string };
+
+interface DeliveryRecord {
+  claimedAt: string;
+}
+
+const DEDUPE_KEY_PREFIX = 'dedupe:';
+// 텔레그램은 미확인 업데이트를 최대 24시간 보관
+const UPDATE_TTL_SECONDS = 24 * 60 * 60;
+// 날짜가 바뀐 뒤 늦게 실행된 중복 Cron도 걸러지도록 넉넉히 보관
+const DELIVERY_TTL_SECONDS = 3 * 24 * 60 * 60;
+
+function getUpdateKey(updateId: number): string {
+  return `${DEDUPE_KEY_PREFIX}update:${updateId}`;
+}
+
+export function getDeliveryKey(target: DeliveryTarget): string {
+  const suffix = target.chatId ? `:${target.chatId}` : target.manual ? ':manual' : '';
+  return `${DEDUPE_KEY_PREFIX}delivery:${target.job}:${target.date}${suffix}`;
+}
+
+/**
+ * 웹훅 업데이트 처리 기록 (이미 처리한 update_id면 false)
+ */
+export async function claimTelegramUpdate(kv: BotStateKv | undefined, updateId: number): Promise<boolean> {
+  if (!kv || !Number.isFinite(updateId)) {
+    return true;
+  }
+
+  const key = getUpdateKey(updateId);
+
+  try {
+    if (await kv.get(key) !== null) {
+      return false;
+    }
+
+    await kv.put(key, new Date().toISOString(), { expirationTtl: UPDATE_TTL_SECONDS });
+  } catch (error) {
+    console.error('Update dedupe check failed:', error);
+  }
+
+  return true;
+}
+
+/**
+ * 작업·날짜별 발송 키 선점 (이미 발송한 작업이면 duplicate)
+ */
+export async function claimDelivery(kv: BotStateKv | undefined, target: DeliveryTarget): Promise<DeliveryClaim> {
+  const key = getDeliveryKey(target);
+
+  if (!kv) {
+    return { status: 'claimed', key };
+  }
+
+  try {
+    const existing = await kv.get<DeliveryRecord>(key, 'json');
+
+    if (existing) {
+      return { status: 'duplicate', key, claimedAt: existing.claimedAt };
+    }
+
+    const record: DeliveryRecord = { claimedAt: new Date().toISOString() };
+    await kv.put(key, JSON.stringify(record), { expirationTtl: DELIVERY_TTL_SECONDS });
+  } catch (error) {
+    console.error('Delivery dedupe check failed:', { key, error });
+  }
+
+  return { status: 'claimed', key };
+}
+
+/**
+ * 발송 실패 시 키를 지워 다음 실행(재시도)에서 다시 발송할 수 있게 함
+ */
+export async function releaseDelivery(kv: BotStateKv | undefined, key: string): Promise<void> {
+  if (!kv) {
+    return;
+  }
+
+  try {
+    await kv.delete(key);
+  } catch (error) {
+    console.error('Delivery dedupe release failed:', { key, error });
+  }
+}
@@ -6,20 +6,151 @@
  * 2. HTTP 트리거: 텔레그램 웹훅으로 사용자 명령어 처리
  */
 
-import { createTelegramBot, TelegramEnv, TelegramUpdate } from './telegram';
 import {
-  getDailyMarketSummary,
+  createTelegramBot,
+  escapeHtml,
+  TelegramBot,
+  TelegramEnv,
+  TelegramMessage,
+  TelegramResponse,
+  TelegramUpdate,
+} from './telegram';
+import {
+  DailyMarketSummary,
   getFinnhubMarketData,
-  getMarketData,
-  getNasdaqCloseStatus,
+  getUsIndexCloseStatuses,
+  getUsOvernightSummary,
+  MARKET_NAMES,
+  MarketSummaryItem,
+  US_CLOSE_INDEX_CODES,
+  UsIndexCloseStatus,
+  getDomesticStockData,
+  isDomesticStockQuery,
   parseCommand,
   parseSearchCommand,
+  parseStockCommand,
+  STOCK_USAGE_TEXT,
+  US_INDEX_NAMES,
+  UsIndexCode,
+  UsOvernightSummary,
+  WatchlistSummaryItem,
 } from './scraper';
-import { getAllChartUrls, getNasdaqThirtyDayChartUrl } from './chart';
+import {
+  CHART_USAGE_TEXT,
+  DEFAULT_CHART_PERIOD,
+  getAllCharts,
+  getMarketChart,
+  getUsIndexThirtyDayChart,
+  parseChartCommand,
+  parseNasdaqChartStyle,
+  parseUsCloseChartCodes,
+} from './chart';
+import { ChartImage, ChartRenderOptions, parseChartRenderer } from './renderer';
+import { getDailyMarketSummary, getMarketData } from './providers';
+import { getMarketRecap, MarketRecap, RecapPeriod } from './recap';
+import { runWithFreshCache } from './cache';
+import { consumeRateLimit, formatRateLimitMessage, RateLimitBudget } from './rateLimit';
+import { CapturedTelegramCall, configureFixtureMode, createReplayKv, runWithFixtureMode } from './fixtures';
+import { getInlineQuotes, INLINE_CACHE_TTL_SECONDS } from './inline';
+import {
+  buildHelpText,
+  buildStartText,
+  CommandLanguage,
+  getBotCommandList,
+  normalizeCommandText,
+  parseHelpCommand,
+  parseMarketCommand,
+} from './commands';
+import { buildQuoteKeyboard, fetchMarketQuote, getQuoteTargetQuery, parseQuoteCallbackData } from './quoteActions';
+import {
+  addChatAlert,
+  ALERT_USAGE_TEXT,
+  AlertQuote,
+  applyAlertResults,
+  evaluateChatAlerts,
+  fetchAlertQuote,
+  formatAlertCondition,
+  getAlertTargetKey,
+  listAlertChatIds,
+  loadChatAlerts,
+  MAX_ALERTS_PER_CHAT,
+  parseAlertCommand,
+  removeChatAlert,
+  resolveAlertTarget,
+} from './alerts';
+import {
+  addToWatchlist,
+  getWatchlistSummary,
+  loadWatchlist,
+  MAX_WATCHLIST_SIZE,
+  parseWatchCommand,
+  removeFromWatchlist,
+  WATCH_USAGE_TEXT,
+} from './watchlist';
+import {
+  getChatSubscribedJobs,
+  listSubscribedChatIds,
+  parseSubscriptionCommand,
+  SUBSCRIPTION_JOB_NAMES,
+  SUBSCRIPTION_USAGE_TEXT,
+  SubscriptionJob,
+  updateChatSubscription,
+} from './subscriptions';
+
+import { convertCurrency, CONVERT_USAGE_TEXT, parseConvertCommand } from './converter';
+import {
+  getBriefingKimchiPremiums,
+  getKimchiPremium,
+  parseBriefingPremiumSymbols,
+  parsePremiumCommand,
+  PREMIUM_USAGE_TEXT,
+} from './premium';
+import { AuthEnv, isAdminUser, logRejectedRequest, verifyAdminToken, verifyWebhookSecret } from './auth';
+import { getDateInTimeZone, getKrxTradingDay, getUsTradingDay, hasKrxHolidayTable } from './calendar';
+import {
+  getMarketHistory,
+  HISTORY_USAGE_TEXT,
+  parseHistoryCommand,
+  recordDailyMarketSummary,
+  recordNasdaqCloseStatus,
+} from './history';
+import {
+  claimDelivery,
+  claimTelegramUpdate,
+  DeliveryJob,
+  DeliveryTarget,
+  getDeliveryKey,
+  releaseDelivery,
+} from './idempotency';
+import {
+  ChartGenerationResult,
+  EMPTY_JOB_RUN_OUTCOME,
+  getJobRunStatus,
+  getStatusReport,
+  JobDeliveryResult,
+  JobRunOutcome,
+  JobTrigger,
+  recordJobRun,
+  SourceFetchResult,
+  StatusJob,
+} from './status';
+import { BotStateKv } from './kv';
 
 // 환경변수 타입 확장
-interface Env extends TelegramEnv {
+interface Env extends TelegramEnv, AuthEnv {
   FINNHUB_API_KEY?: string;
+  BOT_STATE: BotStateKv;
+  DB: D1Database;
+  RATE_LIMITER?: DurableObjectNamespace;
+  NASDAQ_CHART_STYLE?: string;
+  US_CLOSE_CHARTS?: string;
+  CHART_RENDERER?: string;
+  CHART_FONT_URL?: string;
+  CHART_FONT_FAMILY?: string;
+  TELEGRAM_BOT_USERNAME?: string;
+  FIXTURE_MODE?: string;
+  BRIEFING_KIMCHI_PREMIUM?: string;
+  BRIEFING_COMMODITIES?: string;
 }
 
 interface DailyBriefingOptions {
@@ -27,14 +158,74 @@ interface DailyBriefingOptions {
   logPrefix?: string;
 }
 
-type ScheduledJobType = 'daily-briefing' | 'nasdaq-close-status' | 'unknown';
+interface DailyBriefingData {
+  charts: Awaited<ReturnType<typeof getAllCharts>>;
+  marketSummary: DailyMarketSummary;
+}
+
+interface UsCloseChart {
+  code: UsIndexCode;
+  name: string;
+  chart: ChartImage | null;
+}
+
+interface NasdaqCloseData {
+  charts: UsCloseChart[];
+  statuses: UsIndexCloseStatus[];
+}
+
+interface BroadcastDelivery {
+  chatId: string;
+  ok: boolean;
+  description?: string;
+}
+
+type ScheduledJobType = DeliveryJob | 'price-alerts' | 'unknown';
+
+interface JobRunOptions<T> {
+  trigger: JobTrigger;
+  logPrefix: string;
+  summarize: (result: T) => JobRunOutcome;
+}
+
+type DeliveryRun<T> =
+  | { skipped: true; deliveryKey: string; claimedAt: string }
+  | ({ skipped: false; deliveryKey: string } & T);
 
 const DAILY_BRIEFING_CRON = '0 8 * * mon-fri';
+// 금요일 18:00 KST 주간 리캡, 매월 말일 18:30 KST 월간 리캡
+const WEEKLY_RECAP_CRON = '0 9 * * fri';
+const MONTHLY_RECAP_CRON = '30 9 L * *';
+// 미국 정규장 마감 후 UTC 22:30 = 다음 날 07:30 KST 미국 증시 모닝 브리핑
+const US_OVERNIGHT_BRIEFING_CRON = '30 22 * * mon-fri';
+const PRICE_ALERT_CRON = '*/10 * * * *';
+// 조기폐장(13:10 ET)과 정규장(16:10 ET) 마감 10분 후 후보 시간 (EDT/EST 모두 포함)
 const NASDAQ_CLOSE_STATUS_CRONS = new Set([
-  '10 20 * * mon-fri',
-  '10 21 * * mon-fri',
+  '10 17,18,20,21 * * mon-fri',
+]);
+const NASDAQ_CLOSE_REPORT_DELAY_MINUTES = 10;
+// /status 실행 기록에 남길 일일 브리핑 시세 (원자재·금리는 BRIEFING_COMMODITIES일 때만 값이 있음)
+const BRIEFING_STATUS_MARKETS = ['kospi', 'kosdaq', 'usd', 'eur', 'jpy', 'gbp', 'chf', 'cny', 'gold', 'wti', 'us10y', 'kr3y'] as const;
+
+// ADMIN_TOKEN Bearer 인증이 필요한 관리자 엔드포인트
+const ADMIN_PATHS = new Set([
+  '/test',
+  '/test-scheduled',
+  '/test-nasdaq-close',
+  '/test-recap',
+  '/test-us-overnight',
+  '/status',
+  '/set-commands',
+  '/replay',
 ]);
 
+// setMyCommands 등록 언어 (language_code 없는 기본 목록은 한국어)
+const COMMAND_MENU_LANGUAGES: Array<{ languageCode?: string; language: CommandLanguage }> = [
+  { language: 'ko' },
+  { languageCode: 'ko', language: 'ko' },
+  { languageCode: 'en', language: 'en' },
+];
+
 function assertTelegramToken(env: TelegramEnv): void {
   if (!env.TELEGRAM_BOT_TOKEN) {
     throw new Error('Missing TELEGRAM_BOT_TOKEN');
@@ -47,6 +238,103 @@ function assertTelegramDefaultChatId(env: TelegramEnv): void {
   }
 }
 
+function assertBotState(env: Env): void {
+  if (!env.BOT_STATE) {
+    throw new Error('Missing BOT_STATE KV binding');
+  }
+}
+
+/**
+ * 채팅방 관심 종목 시세 조회 (관심 종목이 없거나 실패하면 빈 배열)
+ */
+async function getChatWatchlistSummary(env: Env, chatId: string): Promise<WatchlistSummaryItem[]> {
+  if (!env.BOT_STATE || !env.FINNHUB_API_KEY || !chatId) {
+    return [];
+  }
+
+  try {
+    const entries = await loadWatchlist(env.BOT_STATE, chatId);
+    if (entries.length === 0) return [];
+
+    return await getWatchlistSummary(entries, env.FINNHUB_API_KEY);
+  } catch (error) {
+    console.error(`Watchlist summary failed for chat ${chatId}:`, error);
+    return [];
+  }
+}
+
+function isBriefingCommoditiesEnabled(env: Env): boolean {
+  return env.BRIEFING_COMMODITIES?.trim().toLowerCase() === 'true';
+}
+
+function getChartRenderOptions(env: Env): ChartRenderOptions {
+  return {
+    renderer: parseChartRenderer(env.CHART_RENDERER),
+    fontUrl: env.CHART_FONT_URL,
+    fontFamily: env.CHART_FONT_FAMILY,
+  };
+}
+
+/**
+ * 테스트 엔드포인트 응답용 차트 요약 (PNG 바이트는 제외)
+ */
+function describeChart(chart: ChartImage | null) {
+  if (!chart) return null;
+
+  return {
+    renderer: chart.png ? 'worker' : 'quickchart',
+    pngBytes: chart.png?.byteLength ?? 0,
+    url: chart.url,
+  };
+}
+
+async function fetchDailyBriefingData(env: Env): Promise<DailyBriefingData> {
+  const premiumSymbols = parseBriefingPremiumSymbols(env.BRIEFING_KIMCHI_PREMIUM);
+  const [charts, marketSummary, kimchiPremium] = await Promise.all([
+    getAllCharts(getChartRenderOptions(env)),
+    getDailyMarketSummary(env.FINNHUB_API_KEY, isBriefingCommoditiesEnabled(env)),
+    premiumSymbols.length > 0
+      ? getBriefingKimchiPremiums(premiumSymbols, env.FINNHUB_API_KEY)
+      : Promise.resolve([]),
+  ]);
+
+  return {
+    charts,
+    marketSummary: kimchiPremium.length > 0 ? { ...marketSummary, kimchiPremium } : marketSummary,
+  };
+}
+
+async function deliverDailyBriefing(
+  env: Env,
+  bot: TelegramBot,
+  data: DailyBriefingData,
+  chatId: string,
+  logPrefix = 'Daily briefing'
+) {
+  const { charts } = data;
+  const watchlist = await getChatWatchlistSummary(env, chatId);
+  const marketSummary = watchlist.length > 0
+    ? { ...data.marketSummary, watchlist }
+    : data.marketSummary;
+
+  await bot.sendChartImages(charts, chatId);
+  console.log(`${logPrefix} chart images send attempted:`, {
+    chatId,
+    kospi: !!charts.kospi,
+    usd: !!charts.usd,
+  });
+
+  const message = await bot.sendDailyMarketMessage(marketSummary, chatId);
+
+  if (message.ok) {
+    console.log(`${logPrefix} market message sent successfully`, { chatId });
+  } else {
+    console.error(`${logPrefix} market message failed:`, { chatId, description: message.description });
+  }
+
+  return { charts, marketSummary, message };
+}
+
 async function sendDailyBriefing(env: Env, options: DailyBriefingOptions = {}) {
   assertTelegramToken(env);
 
@@ -57,127 +345,1401 @@ async function sendDailyBriefing(env: Env, options: DailyBriefingOptions = {}) {
   const bot = createTelegramBot({
     TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
     TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || options.chatId || '',
+    TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+  });
+
+  const data = await fetchDailyBriefingData(env);
+  return deliverDailyBriefing(env, bot, data, options.chatId || env.TELEGRAM_CHAT_ID, options.logPrefix);
+}
+
+/**
+ * 구독한 모든 채팅방으로 정기 발송 (한 채팅방의 실패가 다른 채팅방 발송을 막지 않음)
+ */
+async function broadcastToSubscribers(
+  env: Env,
+  job: SubscriptionJob,
+  logPrefix: string,
+  deliver: (chatId: string) => Promise<TelegramResponse<TelegramMessage>>
+): Promise<BroadcastDelivery[]> {
+  assertBotState(env);
+
+  const chatIds = await listSubscribedChatIds(env.BOT_STATE, job, env.TELEGRAM_CHAT_ID);
+
+  if (chatIds.length === 0) {
+    console.warn(`${logPrefix} skipped: no subscribed chats`);
+    return [];
+  }
+
+  const deliveries: BroadcastDelivery[] = [];
+
+  for (const chatId of chatIds) {
+    try {
+      const message = await deliver(chatId);
+      deliveries.push({ chatId, ok: message.ok, description: message.description });
+    } catch (error) {
+      console.error(`${logPrefix} delivery failed:`, { chatId, error: String(error) });
+      deliveries.push({ chatId, ok: false, description: String(error) });
+    }
+  }
+
+  console.log(`${logPrefix} broadcast finished:`, {
+    total: deliveries.length,
+    failed: deliveries.filter(delivery => !delivery.ok).length,
+  });
+
+  return deliveries;
+}
+
+async function broadcastDailyBriefing(env: Env, logPrefix = 'Daily briefing') {
+  assertTelegramToken(env);
+
+  const bot = createTelegramBot({
+    TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+    TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || '',
+    TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+  });
+
+  const data = await fetchDailyBriefingData(env);
+
+  try {
+    const date = getDateInTimeZone(Date.now(), 'Asia/Seoul');
+    await recordDailyMarketSummary(env.DB, date, data.marketSummary);
+    console.log(`${logPrefix} snapshot saved:`, { date });
+  } catch (error) {
+    console.error(`${logPrefix} snapshot save failed:`, error);
+  }
+
+  const deliveries = await broadcastToSubscribers(env, 'daily', logPrefix, async chatId => {
+    const result = await deliverDailyBriefing(env, bot, data, chatId, logPrefix);
+    return result.message;
+  });
+
+  return { ...data, deliveries };
+}
+
+function fetchMarketRecap(env: Env, period: RecapPeriod, timestamp: number): Promise<MarketRecap> {
+  return getMarketRecap(period, timestamp, {
+    finnhubApiKey: env.FINNHUB_API_KEY,
+    includeCommodities: isBriefingCommoditiesEnabled(env),
+    chartOptions: getChartRenderOptions(env),
+  });
+}
+
+async function deliverMarketRecap(
+  bot: TelegramBot,
+  recap: MarketRecap,
+  chatId: string,
+  logPrefix = 'Market recap'
+) {
+  let chartMessage = null;
+  if (recap.chart) {
+    chartMessage = await bot.sendChartImage(recap.chart, '<b>📈 주요 지수·달러 누적 등락률</b>', chatId);
+
+    if (!chartMessage.ok) {
+      console.error(`${logPrefix} chart image failed:`, { chatId, description: chartMessage.description });
+    }
+  } else {
+    console.warn(`${logPrefix} chart image skipped: no chart data`);
+  }
+
+  const message = await bot.sendMarketRecapMessage(recap, chatId);
+
+  if (message.ok) {
+    console.log(`${logPrefix} message sent successfully`, { chatId });
+  } else {
+    console.error(`${logPrefix} message failed:`, { chatId, description: message.description });
+  }
+
+  return { chartMessage, message };
+}
+
+async function sendMarketRecap(env: Env, period: RecapPeriod, options: DailyBriefingOptions = {}) {
+  assertTelegramToken(env);
+
+  if (!options.chatId) {
+    assertTelegramDefaultChatId(env);
+  }
+
+  const bot = createTelegramBot({
+    TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+    TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || options.chatId || '',
+    TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+  });
+
+  const recap = await fetchMarketRecap(env, period, Date.now());
+
+  if (recap.items.length === 0) {
+    throw new Error(`No market data for ${period} recap`);
+  }
+
+  const result = await deliverMarketRecap(bot, recap, options.chatId || env.TELEGRAM_CHAT_ID, options.logPrefix);
+  return { recap, ...result };
+}
+
+async function broadcastMarketRecap(env: Env, period: RecapPeriod, timestamp: number, logPrefix = 'Market recap') {
+  assertTelegramToken(env);
+
+  const bot = createTelegramBot({
+    TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+    TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || '',
+    TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+  });
+
+  const recap = await fetchMarketRecap(env, period, timestamp);
+
+  if (recap.items.length === 0) {
+    console.warn(`${logPrefix} skipped: no market data`, { startDate: recap.startDate, endDate: recap.endDate });
+    return { recap, deliveries: [] };
+  }
+
+  const deliveries = await broadcastToSubscribers(env, 'recap', logPrefix, async chatId => {
+    const result = await deliverMarketRecap(bot, recap, chatId, logPrefix);
+    return result.message;
+  });
+
+  return { recap, deliveries };
+}
+
+async function sendUsOvernightBriefing(env: Env, options: DailyBriefingOptions = {}) {
+  assertTelegramToken(env);
+
+  if (!options.chatId) {
+    assertTelegramDefaultChatId(env);
+  }
+
+  const bot = createTelegramBot({
+    TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+    TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || options.chatId || '',
+    TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+  });
+
+  const summary = await getUsOvernightSummary();
+  const message = await bot.sendUsOvernightMessage(summary, options.chatId || env.TELEGRAM_CHAT_ID);
+
+  if (!message.ok) {
+    console.error(`${options.logPrefix || 'US overnight briefing'} message failed:`, message.description);
+  }
+
+  return { summary, message };
+}
+
+async function broadcastUsOvernightBriefing(env: Env, logPrefix = 'US overnight briefing') {
+  assertTelegramToken(env);
+
+  const bot = createTelegramBot({
+    TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+    TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || '',
+    TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+  });
+
+  const summary = await getUsOvernightSummary();
+
+  if (!summary.ixic.value && !summary.inx.value && !summary.dji.value) {
+    throw new Error('Failed to fetch US overnight indices');
+  }
+
+  const deliveries = await broadcastToSubscribers(env, 'overnight', logPrefix, chatId =>
+    bot.sendUsOvernightMessage(summary, chatId)
+  );
+
+  return { summary, deliveries };
+}
+
+/**
+ * 발송 키 날짜 (미국 장 관련 작업은 뉴욕 거래일, 나머지는 KST 기준)
+ */
+function getDeliveryDate(job: DeliveryJob, timestamp: number): string {
+  return job === 'us-overnight-briefing' || job === 'nasdaq-close-status'
+    ? getNewYorkTimeParts(timestamp).date
+    : getDateInTimeZone(timestamp, 'Asia/Seoul');
+}
+
+/**
+ * 작업 실행 결과를 /status용으로 기록 (실패해도 기록한 뒤 오류 전달)
+ */
+async function runTrackedJob<T>(
+  env: Env,
+  job: StatusJob,
+  options: JobRunOptions<T>,
+  run: () => Promise<T>
+): Promise<{ result: T; outcome: JobRunOutcome }> {
+  const startedAt = new Date().toISOString();
+
+  try {
+    const result = await run();
+    const outcome = options.summarize(result);
+    await recordJobRun(env.BOT_STATE, {
+      job,
+      trigger: options.trigger,
+      status: getJobRunStatus(outcome),
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      ...outcome,
+    });
+    return { result, outcome };
+  } catch (error) {
+    await recordJobRun(env.BOT_STATE, {
+      job,
+      trigger: options.trigger,
+      status: 'failed',
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      ...EMPTY_JOB_RUN_OUTCOME,
+      error: String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * 작업·날짜별로 한 번만 발송 (한 건도 발송하지 못하면 키를 해제해 재실행 시 다시 발송)
+ */
+async function runDeliveryOnce<T>(
+  env: Env,
+  target: DeliveryTarget,
+  options: JobRunOptions<T> & { force?: boolean },
+  run: () => Promise<T>
+): Promise<DeliveryRun<T>> {
+  if (options.force) {
+    const { result } = await runTrackedJob(env, target.job, options, run);
+    return { skipped: false, deliveryKey: getDeliveryKey(target), ...result };
+  }
+
+  const claim = await claimDelivery(env.BOT_STATE, target);
+
+  if (claim.status === 'duplicate') {
+    console.log(`${options.logPrefix} skipped: already delivered`, { key: claim.key, claimedAt: claim.claimedAt });
+    const now = new Date().toISOString();
+    await recordJobRun(env.BOT_STATE, {
+      job: target.job,
+      trigger: options.trigger,
+      status: 'skipped',
+      startedAt: now,
+      finishedAt: now,
+      ...EMPTY_JOB_RUN_OUTCOME,
+    });
+    return { skipped: true, deliveryKey: claim.key, claimedAt: claim.claimedAt };
+  }
+
+  try {
+    const { result, outcome } = await runTrackedJob(env, target.job, options, run);
+
+    if (!outcome.deliveries.some(delivery => delivery.ok)) {
+      await releaseDelivery(env.BOT_STATE, claim.key);
+    }
+
+    return { skipped: false, deliveryKey: claim.key, ...result };
+  } catch (error) {
+    await releaseDelivery(env.BOT_STATE, claim.key);
+    throw error;
+  }
+}
+
+function toJobDeliveries(chatId: string, message: TelegramResponse<TelegramMessage>): JobDeliveryResult[] {
+  return [{ chatId, ok: message.ok, description: message.description }];
+}
+
+function summarizeChart(name: string, chart: ChartImage | null): ChartGenerationResult {
+  return { chart: name, ok: !!chart, renderer: chart ? (chart.png ? 'worker' : 'quickchart') : undefined };
+}
+
+function summarizeMarketItems(items: Array<[string, MarketSummaryItem | undefined]>): SourceFetchResult[] {
+  return items
+    .filter((entry): entry is [string, MarketSummaryItem] => !!entry[1])
+    .map(([source, item]) => ({ source, ok: !!item.value, provider: item.provider }));
+}
+
+function summarizeDailyBriefing(
+  data: Pick<DailyBriefingData, 'charts' | 'marketSummary'>,
+  deliveries: JobDeliveryResult[]
+): JobRunOutcome {
+  const summary = data.marketSummary;
+
+  return {
+    sources: summarizeMarketItems(BRIEFING_STATUS_MARKETS.map(marketType => [marketType, summary[marketType]])),
+    charts: [summarizeChart('kospi', data.charts.kospi), summarizeChart('usd', data.charts.usd)],
+    deliveries,
+  };
+}
+
+function summarizeMarketRecap(recap: MarketRecap, deliveries: JobDeliveryResult[]): JobRunOutcome {
+  return {
+    sources: [
+      ...recap.items.map(item => ({ source: item.marketType, ok: true })),
+      ...recap.missingMarkets.map(marketType => ({ source: marketType, ok: false })),
+    ],
+    charts: [summarizeChart('performance', recap.chart)],
+    deliveries,
+  };
+}
+
+function summarizeUsOvernight(summary: UsOvernightSummary, deliveries: JobDeliveryResult[]): JobRunOutcome {
+  const { dji, inx, ixic, sox, vix, us10y, usdKrwNdf } = summary;
+
+  return {
+    sources: summarizeMarketItems(Object.entries({ dji, inx, ixic, sox, vix, us10y, usdKrwNdf })),
+    charts: [],
+    deliveries,
+  };
+}
+
+function summarizeNasdaqClose(data: NasdaqCloseData, deliveries: JobDeliveryResult[]): JobRunOutcome {
+  return {
+    sources: US_CLOSE_INDEX_CODES.map(code => ({
+      source: code,
+      ok: data.statuses.some(status => status.reutersCode === code),
+    })),
+    charts: data.charts.map(({ code, chart }) => summarizeChart(code, chart)),
+    deliveries,
+  };
+}
+
+/**
+ * 테스트 엔드포인트에서 이미 발송된 작업을 건너뛴 경우의 응답 (?force=true로 다시 발송 가능)
+ */
+function createSkippedDeliveryResponse(trigger: string, run: Extract<DeliveryRun<unknown>, { skipped: true }>): Response {
+  return new Response(JSON.stringify({
+    trigger,
+    skipped: true,
+    deliveryKey: run.deliveryKey,
+    claimedAt: run.claimedAt,
+  }, null, 2), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function getScheduledJobType(cron?: string): ScheduledJobType {
+  if (cron === DAILY_BRIEFING_CRON) {
+    return 'daily-briefing';
+  }
+
+  if (cron === WEEKLY_RECAP_CRON) {
+    return 'weekly-recap';
+  }
+
+  if (cron === MONTHLY_RECAP_CRON) {
+    return 'monthly-recap';
+  }
+
+  if (cron === US_OVERNIGHT_BRIEFING_CRON) {
+    return 'us-overnight-briefing';
+  }
+
+  if (cron && NASDAQ_CLOSE_STATUS_CRONS.has(cron)) {
+    return 'nasdaq-close-status';
+  }
+
+  if (cron === PRICE_ALERT_CRON) {
+    return 'price-alerts';
+  }
+
+  return 'unknown';
+}
+
+function getNewYorkTimeParts(timestamp: number): { date: string; hour: number; minute: number } {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
   });
 
-  const [charts, marketSummary] = await Promise.all([
-    getAllChartUrls(),
-    getDailyMarketSummary(),
-  ]);
+  const parts = formatter.formatToParts(new Date(timestamp));
+  const getPart = (type: string) => parts.find(part => part.type === type)?.value || '';
+
+  return {
+    date: getDateInTimeZone(timestamp, 'America/New_York'),
+    hour: Number(getPart('hour')),
+    minute: Number(getPart('minute')),
+  };
+}
+
+/**
+ * 나스닥 장마감 리포트 발송 시각 여부 (정규장 종료 10분 후, 조기폐장일은 13:10 ET)
+ */
+function isNasdaqCloseReportTime(timestamp: number): boolean {
+  const { date, hour, minute } = getNewYorkTimeParts(timestamp);
+  const tradingDay = getUsTradingDay(date);
+
+  if (!tradingDay.isTradingDay || !tradingDay.closeTime) {
+    return false;
+  }
+
+  const reportMinutes = tradingDay.closeTime.hour * 60 + tradingDay.closeTime.minute + NASDAQ_CLOSE_REPORT_DELAY_MINUTES;
+  return hour * 60 + minute === reportMinutes;
+}
+
+async function fetchNasdaqCloseData(env: Env): Promise<NasdaqCloseData> {
+  const chartStyle = parseNasdaqChartStyle(env.NASDAQ_CHART_STYLE);
+  const chartOptions = getChartRenderOptions(env);
+  const chartCodes = parseUsCloseChartCodes(env.US_CLOSE_CHARTS);
+
+  const [charts, statuses] = await Promise.all([
+    Promise.all(chartCodes.map(async code => ({
+      code,
+      name: US_INDEX_NAMES[code],
+      chart: await getUsIndexThirtyDayChart(code, chartStyle, chartOptions),
+    }))),
+    getUsIndexCloseStatuses(),
+  ]);
+
+  return { charts, statuses };
+}
+
+async function deliverNasdaqCloseStatus(
+  bot: TelegramBot,
+  data: NasdaqCloseData,
+  chatId: string,
+  logPrefix = 'NASDAQ close status'
+) {
+  const { charts, statuses } = data;
+
+  const chartMessages = [];
+  for (const { code, name, chart } of charts) {
+    if (!chart) {
+      console.warn(`${logPrefix} chart image skipped: no chart data`, { code });
+      continue;
+    }
+
+    const chartMessage = await bot.sendChartImage(chart, `<b>📈 ${name} 최근 30거래일 추이</b>`, chatId);
+    chartMessages.push(chartMessage);
+
+    if (chartMessage.ok) {
+      console.log(`${logPrefix} chart image sent successfully`, { chatId, code });
+    } else {
+      console.error(`${logPrefix} chart image failed:`, { chatId, code, description: chartMessage.description });
+    }
+  }
+
+  if (statuses.length === 0) {
+    throw new Error('Failed to fetch US close status');
+  }
+
+  const message = await bot.sendUsCloseStatusMessage(statuses, chatId);
+
+  if (message.ok) {
+    console.log(`${logPrefix} message sent successfully`, { chatId });
+  } else {
+    console.error(`${logPrefix} message failed:`, { chatId, description: message.description });
+  }
+
+  return { charts, chartMessages, message, statuses };
+}
+
+async function sendNasdaqCloseStatus(env: Env, options: DailyBriefingOptions = {}) {
+  assertTelegramToken(env);
+
+  if (!options.chatId) {
+    assertTelegramDefaultChatId(env);
+  }
+
+  const bot = createTelegramBot({
+    TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+    TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || options.chatId || '',
+    TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+  });
+
+  const data = await fetchNasdaqCloseData(env);
+  return deliverNasdaqCloseStatus(bot, data, options.chatId || env.TELEGRAM_CHAT_ID, options.logPrefix);
+}
+
+async function broadcastNasdaqCloseStatus(env: Env, logPrefix = 'NASDAQ close status') {
+  assertTelegramToken(env);
+
+  const bot = createTelegramBot({
+    TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+    TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || '',
+    TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+  });
+
+  const data = await fetchNasdaqCloseData(env);
+
+  if (data.statuses.length === 0) {
+    throw new Error('Failed to fetch US close status');
+  }
+
+  const nasdaqStatus = data.statuses.find(status => status.reutersCode === '.IXIC');
+  if (nasdaqStatus) {
+    try {
+      await recordNasdaqCloseStatus(env.DB, nasdaqStatus);
+      console.log(`${logPrefix} snapshot saved:`, { localTradedAt: nasdaqStatus.localTradedAt });
+    } catch (error) {
+      console.error(`${logPrefix} snapshot save failed:`, error);
+    }
+  }
+
+  const deliveries = await broadcastToSubscribers(env, 'nasdaq', logPrefix, async chatId => {
+    const result = await deliverNasdaqCloseStatus(bot, data, chatId, logPrefix);
+    return result.message;
+  });
+
+  return { ...data, deliveries };
+}
+
+/**
+ * 등록된 모든 가격 알림 확인 후 조건 충족 시 발송
+ */
+async function checkPriceAlerts(env: Env, options: Pick<DailyBriefingOptions, 'logPrefix'> = {}) {
+  assertTelegramToken(env);
+  assertBotState(env);
+
+  const logPrefix = options.logPrefix || 'Price alerts';
+  const bot = createTelegramBot({
+    TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+    TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || '',
+    TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+  });
+
+  const chatIds = await listAlertChatIds(env.BOT_STATE);
+  const states = await Promise.all(chatIds.map(chatId => loadChatAlerts(env.BOT_STATE, chatId)));
+
+  // 같은 대상은 채팅방이 달라도 한 번만 조회
+  const quotes = new Map<string, AlertQuote | null>();
+  for (const state of states) {
+    for (const alert of state.alerts) {
+      const key = getAlertTargetKey(alert.target);
+      if (quotes.has(key)) continue;
+
+      try {
+        quotes.set(key, await fetchAlertQuote(alert.target, env.FINNHUB_API_KEY));
+      } catch (error) {
+        console.error(`${logPrefix} quote fetch failed for ${key}:`, error);
+        quotes.set(key, null);
+      }
+    }
+  }
+
+  let triggeredCount = 0;
+  const deliveries: JobDeliveryResult[] = [];
+
+  for (let i = 0; i < chatIds.length; i += 1) {
+    const chatId = chatIds[i];
+    const state = states[i];
+
+    try {
+      const { triggered, rearmedIds } = evaluateChatAlerts(state.alerts, quotes);
+      const deliveredIds: number[] = [];
+
+      for (const { alert, quote } of triggered) {
+        const message = await bot.sendPriceAlertMessage(alert, quote, chatId);
+        deliveries.push(...toJobDeliveries(chatId, message));
+
+        if (message.ok) {
+          deliveredIds.push(alert.id);
+        } else {
+          // 발송하지 못한 알림은 그대로 두어 다음 확인 때 다시 시도
+          console.error(`${logPrefix} message failed for chat ${chatId}:`, message.description);
+        }
+      }
+
+      await applyAlertResults(env.BOT_STATE, chatId, deliveredIds, rearmedIds);
+
+      triggeredCount += triggered.length;
+    } catch (error) {
+      console.error(`${logPrefix} failed for chat ${chatId}:`, error);
+    }
+  }
+
+  console.log(`${logPrefix} checked:`, {
+    chats: chatIds.length,
+    targets: quotes.size,
+    triggered: triggeredCount,
+  });
+
+  const sources: SourceFetchResult[] = [...quotes].map(([source, quote]) => ({ source, ok: quote !== null }));
+
+  return { chats: chatIds.length, targets: quotes.size, triggered: triggeredCount, sources, deliveries };
+}
+
+/**
+ * 국내 종목 시세 응답 (주식 명령어, ?005930 공용)
+ */
+async function replyDomesticStock(bot: TelegramBot, query: string, username: string, chatId: string): Promise<void> {
+  const result = await getDomesticStockData(query);
+
+  if (result.status === 'not_found') {
+    await bot.sendMessage(`⚠️ "${escapeHtml(query)}" 국내 종목을 찾을 수 없습니다.\n${escapeHtml(STOCK_USAGE_TEXT)}`, {}, chatId);
+    return;
+  }
+
+  if (result.status === 'error') {
+    console.error('Domestic stock lookup error:', result.reason);
+    await bot.sendMessage('⚠️ 종목 시세를 가져오는데 실패했습니다. 잠시 후 다시 시도해주세요.', {}, chatId);
+    return;
+  }
+
+  await bot.sendDomesticStockMessage(
+    username,
+    result.data,
+    chatId,
+    buildQuoteKeyboard({ source: 'krx', code: result.data.code }),
+  );
+}
+
+/**
+ * 명령어가 사용하는 외부 API 예산 (외부 API를 호출하지 않는 명령어는 null)
+ *
+ * 웹훅 분기 순서와 같은 순서로 판별한다. 시장 별칭이 아닌 검색어는 Finnhub 검색으로 처리된다.
+ */
+function getCommandRateLimitBudget(rawCommand: string, isGroupChat: boolean): RateLimitBudget | null {
+  const getQueryBudget = (query: string): RateLimitBudget => parseCommand(query) ? 'naver' : 'finnhub';
+
+  if (rawCommand.toLowerCase() === 'now') return 'naver';
+  if (parseHelpCommand(rawCommand) || parseSubscriptionCommand(rawCommand)) return null;
+
+  const chartCommand = parseChartCommand(rawCommand);
+  if (chartCommand) {
+    if (chartCommand.action !== 'chart') return null;
+    return isDomesticStockQuery(chartCommand.query) ? 'naver' : getQueryBudget(chartCommand.query);
+  }
+
+  const convertCommand = parseConvertCommand(rawCommand);
+  if (convertCommand) return convertCommand.action === 'invalid' ? null : 'naver';
+
+  const premiumCommand = parsePremiumCommand(rawCommand);
+  if (premiumCommand) return premiumCommand.action === 'premium' ? 'finnhub' : null;
+
+  if (parseHistoryCommand(rawCommand)) return null;
+
+  const alertCommand = parseAlertCommand(rawCommand);
+  if (alertCommand) return alertCommand.action === 'create' ? getQueryBudget(alertCommand.query) : null;
+
+  const watchCommand = parseWatchCommand(rawCommand);
+  if (watchCommand) return watchCommand.action === 'watch' ? 'finnhub' : null;
+
+  const stockQuery = parseStockCommand(rawCommand);
+  if (stockQuery !== null) return stockQuery ? 'naver' : null;
+
+  if (rawCommand.startsWith('?')) {
+    const query = parseSearchCommand(rawCommand);
+    return query ? (isDomesticStockQuery(query) ? 'naver' : 'finnhub') : null;
+  }
+
+  return parseMarketCommand(rawCommand, isGroupChat) ? 'naver' : null;
+}
+
+/**
+ * 텔레그램 업데이트 처리 (웹훅과 /replay 공용)
+ */
+async function handleTelegramUpdate(env: Env, parsedUpdate: TelegramUpdate): Promise<Response> {
+  try {
+    assertTelegramToken(env);
+
+    // 인라인 모드: @봇이름 코스피, @봇이름 AAPL
+    if (parsedUpdate.inline_query) {
+      const inlineQuery = parsedUpdate.inline_query;
+      const bot = createTelegramBot({
+        TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+        TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID,
+        TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+      });
+
+      // 타이핑 중에도 요청이 계속 들어오므로 사용자별 한도 초과 시 빈 결과로 응답 (캐시하지 않음)
+      const inlineQueryText = inlineQuery.query.trim();
+      const inlineRateLimit = await consumeRateLimit(
+        env.RATE_LIMITER,
+        !inlineQueryText || parseCommand(inlineQueryText) ? 'naver' : 'finnhub',
+        { userId: inlineQuery.from.id.toString() },
+      );
+
+      if (inlineRateLimit.status !== 'ok') {
+        console.warn('Inline query rate limited:', { fromId: inlineQuery.from.id, ...inlineRateLimit });
+        await bot.answerInlineQuery(inlineQuery.id, [], { cacheTime: 0, isPersonal: true });
+        return new Response('OK', { status: 200 });
+      }
+
+      const quotes = await getInlineQuotes(inlineQuery.query, env.FINNHUB_API_KEY);
+
+      console.log('Telegram inline query:', {
+        updateId: parsedUpdate.update_id,
+        fromId: inlineQuery.from.id,
+        query: inlineQuery.query,
+        results: quotes.length,
+      });
+
+      const answer = await bot.answerMarketQuoteInlineQuery(inlineQuery.id, quotes, INLINE_CACHE_TTL_SECONDS);
+      if (!answer.ok) {
+        console.error('Inline query answer failed:', answer.description);
+      }
+
+      return new Response('OK', { status: 200 });
+    }
+
+    // 시세 메시지 인라인 키보드: 🔄 새로고침, 📈 차트
+    if (parsedUpdate.callback_query) {
+      const callbackQuery = parsedUpdate.callback_query;
+      const callback = parseQuoteCallbackData(callbackQuery.data);
+      const callbackMessage = callbackQuery.message;
+      const bot = createTelegramBot({
+        TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+        TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID,
+        TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+      });
+
+      if (!callback || !callbackMessage) {
+        await bot.answerCallbackQuery(callbackQuery.id, '⚠️ 만료된 버튼입니다.');
+        return new Response('OK', { status: 200 });
+      }
+
+      const callbackChatId = callbackMessage.chat.id.toString();
+
+      console.log('Telegram callback query:', {
+        updateId: parsedUpdate.update_id,
+        chatId: callbackChatId,
+        messageId: callbackMessage.message_id,
+        fromId: callbackQuery.from.id,
+        data: callbackQuery.data,
+      });
+
+      const callbackBudget: RateLimitBudget = callback.target.source === 'finnhub' ? 'finnhub' : 'naver';
+      const callbackRateLimit = await consumeRateLimit(env.RATE_LIMITER, callbackBudget, {
+        chatId: callbackChatId,
+        userId: callbackQuery.from.id.toString(),
+      });
+
+      if (callbackRateLimit.status !== 'ok') {
+        console.warn('Callback query rate limited:', {
+          chatId: callbackChatId,
+          fromId: callbackQuery.from.id,
+          ...callbackRateLimit,
+        });
+        await bot.answerCallbackQuery(callbackQuery.id, formatRateLimitMessage(callbackRateLimit), true);
+        return new Response('OK', { status: 200 });
+      }
+
+      if (callback.action === 'refresh') {
+        const callbackUsername = callbackQuery.from.username || callbackQuery.from.first_name;
+        const quote = await fetchMarketQuote(callback.target, env.FINNHUB_API_KEY);
+
+        if (!quote) {
+          await bot.answerCallbackQuery(callbackQuery.id, '⚠️ 시세 정보를 가져오는데 실패했습니다.', true);
+          return new Response('OK', { status: 200 });
+        }
+
+        const edited = quote.stock
+          ? await bot.editDomesticStockMessage(
+            callbackChatId,
+            callbackMessage.message_id,
+            callbackUsername,
+            quote.stock,
+            buildQuoteKeyboard(callback.target),
+          )
+          : await bot.editMarketDataMessage(
+            callbackChatId,
+            callbackMessage.message_id,
+            callbackUsername,
+            quote.name,
+            quote.value,
+            quote.change,
+            quote.sourceUrl,
+            buildQuoteKeyboard(callback.target),
+          );
+
+        if (!edited.ok && !edited.description?.includes('message is not modified')) {
+          console.error('Quote refresh edit failed:', edited.description);
+          await bot.answerCallbackQuery(callbackQuery.id, '⚠️ 메시지를 수정하지 못했습니다.', true);
+          return new Response('OK', { status: 200 });
+        }
+
+        await bot.answerCallbackQuery(callbackQuery.id, edited.ok ? '🔄 최신 시세로 업데이트했습니다.' : '이미 최신 시세입니다.');
+        return new Response('OK', { status: 200 });
+      }
+
+      // 차트 생성은 시간이 걸리므로 버튼 로딩 표시를 먼저 해제
+      await bot.answerCallbackQuery(callbackQuery.id, '📈 차트를 생성하고 있습니다...');
+
+      const chart = await getMarketChart(
+        getQuoteTargetQuery(callback.target),
+        DEFAULT_CHART_PERIOD,
+        env.FINNHUB_API_KEY,
+        getChartRenderOptions(env),
+      );
+
+      if (chart.status !== 'ok') {
+        if (chart.status === 'error') {
+          console.error('Quote chart lookup error:', chart.reason);
+        }
+        await bot.sendMessage('⚠️ 차트 데이터를 가져오지 못했습니다. 잠시 후 다시 시도해주세요.', {}, callbackChatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      const photo = await bot.sendChartImage(
+        chart.chart,
+        `<b>📈 ${escapeHtml(chart.title)} 최근 ${chart.period}거래일 추이</b>`,
+        callbackChatId,
+      );
+
+      if (!photo.ok) {
+        console.error('Quote chart image failed:', photo.description);
+      }
+
+      return new Response('OK', { status: 200 });
+    }
+
+    const message = parsedUpdate.message;
+
+    // 메시지가 없으면 무시
+    if (!message?.text) {
+      return new Response('OK', { status: 200 });
+    }
+
+    console.log('Telegram webhook chat:', {
+      updateId: parsedUpdate.update_id,
+      messageId: message.message_id,
+      chatId: message.chat.id,
+      chatType: message.chat.type,
+      chatTitle: message.chat.title,
+      chatUsername: message.chat.username,
+      fromId: message.from?.id,
+      fromUsername: message.from?.username,
+    });
+
+    // 그룹 채팅의 /명령어@봇이름 접미사 제거 (다른 봇을 지정한 명령어는 무시)
+    const normalized = normalizeCommandText(message.text, env.TELEGRAM_BOT_USERNAME);
+    if (normalized.status === 'other_bot') {
+      return new Response('OK', { status: 200 });
+    }
+
+    const rawCommand = normalized.text;
+    const command = rawCommand.toLowerCase();
+    const chatId = message.chat.id.toString();
+    const isGroupChat = message.chat.type === 'group' || message.chat.type === 'supergroup';
+    
+    // from이 없는 경우 (채널 메시지, 익명 관리자 등)
+    if (!message.from) {
+      return new Response('OK', { status: 200 });
+    }
+    
+    const username = message.from.username || message.from.first_name;
+    const bot = createTelegramBot({
+      TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+      TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || chatId,
+      TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+    });
+
+    // 외부 API를 호출하는 명령어는 채팅방/사용자별 요청 한도 확인
+    const rateLimitBudget = getCommandRateLimitBudget(rawCommand, isGroupChat);
+    if (rateLimitBudget) {
+      const rateLimit = await consumeRateLimit(env.RATE_LIMITER, rateLimitBudget, {
+        chatId,
+        userId: message.from.id.toString(),
+      });
+
+      if (rateLimit.status !== 'ok') {
+        console.warn('Command rate limited:', { chatId, fromId: message.from.id, command: rawCommand, ...rateLimit });
+        await bot.sendMessage(escapeHtml(formatRateLimitMessage(rateLimit)), {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+    }
+
+    // 관리자 상태 점검: /status (ADMIN_USER_IDS에 등록된 사용자만)
+    if (command === '/status') {
+      if (!isAdminUser(env, message.from.id)) {
+        await bot.sendMessage('🔒 관리자만 사용할 수 있는 명령어입니다.', {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      assertBotState(env);
+
+      const report = await getStatusReport(env.BOT_STATE, env.FINNHUB_API_KEY);
+      const statusMessage = await bot.sendStatusMessage(report, chatId);
+
+      if (!statusMessage.ok) {
+        console.error('Status message failed:', statusMessage.description);
+      }
+
+      return new Response('OK', { status: 200 });
+    }
+
+    // "now" 명령어: 일일 브리핑 즉시 발송
+    if (command === 'now') {
+      await sendDailyBriefing(env, {
+        chatId,
+        logPrefix: 'Telegram now',
+      });
+
+      return new Response('OK', { status: 200 });
+    }
+
+    // 도움말: /start, /help
+    const helpCommand = parseHelpCommand(rawCommand);
+    if (helpCommand) {
+      const text = helpCommand === 'start' ? buildStartText() : buildHelpText();
+      await bot.sendMessage(escapeHtml(text), {}, chatId);
+      return new Response('OK', { status: 200 });
+    }
+
+    // 정기 발송 구독 명령어: /subscribe daily, /subscribe nasdaq, /unsubscribe
+    const subscriptionCommand = parseSubscriptionCommand(rawCommand);
+    if (subscriptionCommand) {
+      assertBotState(env);
+
+      if (subscriptionCommand.action === 'invalid') {
+        await bot.sendMessage(escapeHtml(`⚠️ ${subscriptionCommand.reason}\n${SUBSCRIPTION_USAGE_TEXT}`), {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      let jobs: SubscriptionJob[];
+      let header: string;
+
+      if (subscriptionCommand.action === 'status') {
+        jobs = await getChatSubscribedJobs(env.BOT_STATE, chatId, env.TELEGRAM_CHAT_ID);
+        header = '📬 현재 구독 현황';
+      } else if (subscriptionCommand.action === 'subscribe') {
+        const subscription = await updateChatSubscription(
+          env.BOT_STATE,
+          chatId,
+          { add: [subscriptionCommand.job] },
+          env.TELEGRAM_CHAT_ID,
+          username,
+        );
+        jobs = subscription.jobs;
+        header = `✅ ${SUBSCRIPTION_JOB_NAMES[subscriptionCommand.job]}을(를) 구독했습니다.`;
+      } else {
+        const subscription = await updateChatSubscription(
+          env.BOT_STATE,
+          chatId,
+          { remove: subscriptionCommand.jobs },
+          env.TELEGRAM_CHAT_ID,
+          username,
+        );
+        jobs = subscription.jobs;
+        header = `🔕 ${subscriptionCommand.jobs.map(job => SUBSCRIPTION_JOB_NAMES[job]).join(', ')} 구독을 해지했습니다.`;
+      }
+
+      const statusText = jobs.length > 0
+        ? `구독 중: ${jobs.map(job => SUBSCRIPTION_JOB_NAMES[job]).join(', ')}`
+        : '구독 중인 항목이 없습니다.';
+
+      await bot.sendMessage(escapeHtml(`${header}\n${statusText}\n\n${SUBSCRIPTION_USAGE_TEXT}`), {}, chatId);
+      return new Response('OK', { status: 200 });
+    }
+
+    // 차트 명령어: 차트 코스피, 차트 달러 90, 차트 AAPL 365
+    const chartCommand = parseChartCommand(rawCommand);
+    if (chartCommand) {
+      if (chartCommand.action === 'invalid') {
+        await bot.sendMessage(escapeHtml(`⚠️ ${chartCommand.reason}\n${CHART_USAGE_TEXT}`), {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      const chart = await getMarketChart(
+        chartCommand.query,
+        chartCommand.period,
+        env.FINNHUB_API_KEY,
+        getChartRenderOptions(env),
+      );
+
+      if (chart.status === 'ok') {
+        const photo = await bot.sendChartImage(
+          chart.chart,
+          `<b>📈 ${escapeHtml(chart.title)} 최근 ${chart.period}거래일 추이</b>`,
+          chatId,
+        );
+
+        if (!photo.ok) {
+          console.error('Chart image failed:', photo.description);
+          await bot.sendMessage('⚠️ 차트 이미지 전송에 실패했습니다. 잠시 후 다시 시도해주세요.', {}, chatId);
+        }
+        return new Response('OK', { status: 200 });
+      }
+
+      if (chart.status === 'not_found') {
+        await bot.sendMessage(`⚠️ "${escapeHtml(chartCommand.query)}" 검색 결과가 없습니다.`, {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      if (chart.status === 'error') {
+        console.error('Chart lookup error:', chart.reason);
+      }
+
+      await bot.sendMessage('⚠️ 차트 데이터를 가져오는데 실패했습니다. 잠시 후 다시 시도해주세요.', {}, chatId);
+      return new Response('OK', { status: 200 });
+    }
+
+    // 환전 명령어: 100달러, 5만엔, 1000000원 USD, 환전 250 EUR
+    const convertCommand = parseConvertCommand(rawCommand);
+    if (convertCommand) {
+      if (convertCommand.action === 'invalid') {
+        await bot.sendMessage(escapeHtml(`⚠️ ${convertCommand.reason}\n${CONVERT_USAGE_TEXT}`), {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      const conversion = await convertCurrency(convertCommand.request);
+
+      if (conversion.status === 'unsupported') {
+        await bot.sendMessage(`⚠️ ${escapeHtml(conversion.currency)} 환율 정보가 없습니다.`, {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      if (conversion.status === 'error') {
+        console.error('Currency conversion error:', conversion.reason);
+        await bot.sendMessage('⚠️ 환율 정보를 가져오는데 실패했습니다. 잠시 후 다시 시도해주세요.', {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      await bot.sendCurrencyConversionMessage(conversion.conversion, chatId);
+      return new Response('OK', { status: 200 });
+    }
+
+    // 김치 프리미엄 명령어: 김프, 김프 BTC, 김프 ETH
+    const premiumCommand = parsePremiumCommand(rawCommand);
+    if (premiumCommand) {
+      if (premiumCommand.action === 'invalid') {
+        await bot.sendMessage(escapeHtml(`⚠️ ${premiumCommand.reason}\n${PREMIUM_USAGE_TEXT}`), {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      if (!env.FINNHUB_API_KEY) {
+        await bot.sendMessage(
+          '⚠️ FINNHUB_API_KEY가 설정되지 않았습니다. 관리자에게 문의해주세요.',
+          {},
+          chatId,
+        );
+        return new Response('OK', { status: 200 });
+      }
+
+      const result = await getKimchiPremium(premiumCommand.symbol, env.FINNHUB_API_KEY);
+
+      if (result.status === 'not_found') {
+        const market = result.market === 'upbit' ? '업비트 원화 마켓' : '해외 거래소';
+        await bot.sendMessage(`⚠️ ${market}에서 ${escapeHtml(result.symbol)} 시세를 찾을 수 없습니다.`, {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      if (result.status === 'error') {
+        console.error('Kimchi premium lookup error:', result.reason);
+        await bot.sendMessage('⚠️ 김치 프리미엄 계산에 실패했습니다. 잠시 후 다시 시도해주세요.', {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      await bot.sendKimchiPremiumMessage(result.premium, chatId);
+      return new Response('OK', { status: 200 });
+    }
+
+    // 시세 이력 명령어: /history 코스피, /history 달러 30
+    const historyCommand = parseHistoryCommand(rawCommand);
+    if (historyCommand) {
+      if (historyCommand.action === 'invalid') {
+        await bot.sendMessage(escapeHtml(`⚠️ ${historyCommand.reason}\n${HISTORY_USAGE_TEXT}`), {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      const rows = await getMarketHistory(env.DB, historyCommand.marketType, historyCommand.days);
+      await bot.sendMarketHistoryMessage(MARKET_NAMES[historyCommand.marketType], rows, chatId);
+      return new Response('OK', { status: 200 });
+    }
+
+    // 가격 알림 명령어: 알림 코스피 > 2700, 알림 USD/KRW -1%, 알림 목록, 알림 삭제 1
+    const alertCommand = parseAlertCommand(rawCommand);
+    if (alertCommand) {
+      assertBotState(env);
+
+      if (alertCommand.action === 'invalid') {
+        await bot.sendMessage(escapeHtml(`⚠️ ${alertCommand.reason}\n${ALERT_USAGE_TEXT}`), {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      if (alertCommand.action === 'list') {
+        const state = await loadChatAlerts(env.BOT_STATE, chatId);
+        await bot.sendAlertListMessage(state.alerts, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      if (alertCommand.action === 'delete') {
+        const removed = await removeChatAlert(env.BOT_STATE, chatId, alertCommand.id);
+        await bot.sendMessage(
+          removed
+            ? `🗑️ 알림 #${removed.id} (${escapeHtml(removed.label)})을 삭제했습니다.`
+            : `⚠️ 알림 #${alertCommand.id}을 찾을 수 없습니다.`,
+          {},
+          chatId,
+        );
+        return new Response('OK', { status: 200 });
+      }
+
+      const resolution = await resolveAlertTarget(alertCommand.query, env.FINNHUB_API_KEY);
+
+      if (resolution.status === 'not_found') {
+        await bot.sendMessage(`⚠️ "${escapeHtml(alertCommand.query)}" 대상을 찾을 수 없습니다.`, {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      if (resolution.status === 'error') {
+        console.error('Alert target lookup error:', resolution.reason);
+        await bot.sendMessage('⚠️ 알림 대상 시세 조회에 실패했습니다. 잠시 후 다시 시도해주세요.', {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      const created = await addChatAlert(env.BOT_STATE, chatId, {
+        target: resolution.target,
+        label: resolution.label,
+        condition: alertCommand.condition,
+        createdBy: username,
+      });
+
+      if (!created) {
+        await bot.sendMessage(`⚠️ 채팅방당 알림은 최대 ${MAX_ALERTS_PER_CHAT}개까지 등록할 수 있습니다.`, {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
+
+      await bot.sendMessage(
+        [
+          `✅ 알림 #${created.id} 등록: <b>${escapeHtml(created.label)}</b> ${escapeHtml(formatAlertCondition(created.condition))}`,
+          `현재가 ${escapeHtml(resolution.quote.value)}`,
+        ].join('\n'),
+        {},
+        chatId,
+      );
+      return new Response('OK', { status: 200 });
+    }
+
+    // 관심 종목 명령어: /watch AAPL, /unwatch AAPL, /watchlist
+    const watchCommand = parseWatchCommand(rawCommand);
+    if (watchCommand) {
+      assertBotState(env);
 
-  await bot.sendChartImages(charts, options.chatId);
-  console.log(`${options.logPrefix || 'Daily briefing'} chart images send attempted:`, {
-    kospi: !!charts.kospi,
-    usd: !!charts.usd,
-  });
+      if (watchCommand.action === 'invalid') {
+        await bot.sendMessage(escapeHtml(`⚠️ ${watchCommand.reason}\n${WATCH_USAGE_TEXT}`), {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
 
-  const message = await bot.sendDailyMarketMessage(marketSummary, options.chatId);
+      if (watchCommand.action === 'list') {
+        const entries = await loadWatchlist(env.BOT_STATE, chatId);
+        await bot.sendWatchlistMessage(entries, chatId);
+        return new Response('OK', { status: 200 });
+      }
 
-  if (message.ok) {
-    console.log(`${options.logPrefix || 'Daily briefing'} market message sent successfully`);
-  } else {
-    console.error(`${options.logPrefix || 'Daily briefing'} market message failed:`, message.description);
-  }
+      if (watchCommand.action === 'unwatch') {
+        const removed = await removeFromWatchlist(env.BOT_STATE, chatId, watchCommand.symbol);
+        await bot.sendMessage(
+          removed
+            ? `🗑️ 관심 종목에서 ${escapeHtml(removed.name)}을(를) 삭제했습니다.`
+            : `⚠️ 관심 종목에 ${escapeHtml(watchCommand.symbol)}이(가) 없습니다.`,
+          {},
+          chatId,
+        );
+        return new Response('OK', { status: 200 });
+      }
 
-  return { charts, message };
-}
+      if (!env.FINNHUB_API_KEY) {
+        await bot.sendMessage(
+          '⚠️ FINNHUB_API_KEY가 설정되지 않았습니다. 관리자에게 문의해주세요.',
+          {},
+          chatId,
+        );
+        return new Response('OK', { status: 200 });
+      }
 
-function getScheduledJobType(cron?: string): ScheduledJobType {
-  if (cron === DAILY_BRIEFING_CRON) {
-    return 'daily-briefing';
-  }
+      const result = await addToWatchlist(
+        env.BOT_STATE,
+        chatId,
+        watchCommand.query,
+        env.FINNHUB_API_KEY,
+        username,
+      );
 
-  if (cron && NASDAQ_CLOSE_STATUS_CRONS.has(cron)) {
-    return 'nasdaq-close-status';
-  }
+      switch (result.status) {
+        case 'added':
+          await bot.sendMessage(`⭐ 관심 종목에 ${escapeHtml(result.entry.name)}을(를) 추가했습니다.`, {}, chatId);
+          break;
+        case 'duplicate':
+          await bot.sendMessage(`ℹ️ ${escapeHtml(result.entry.name)}은(는) 이미 관심 종목입니다.`, {}, chatId);
+          break;
+        case 'full':
+          await bot.sendMessage(`⚠️ 관심 종목은 최대 ${MAX_WATCHLIST_SIZE}개까지 등록할 수 있습니다.`, {}, chatId);
+          break;
+        case 'not_found':
+          await bot.sendMessage(`⚠️ "${escapeHtml(watchCommand.query)}" 검색 결과가 없습니다.`, {}, chatId);
+          break;
+        case 'error':
+          console.error('Watchlist lookup error:', result.reason);
+          await bot.sendMessage('⚠️ Finnhub 조회 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.', {}, chatId);
+          break;
+      }
 
-  return 'unknown';
-}
+      return new Response('OK', { status: 200 });
+    }
 
-function getNewYorkTimeParts(timestamp: number): { weekday: string; hour: number; minute: number } {
-  const formatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/New_York',
-    weekday: 'short',
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false,
-  });
+    // 국내 종목 명령어: 주식 삼성전자, 주식 005930, /stock 카카오
+    const stockQuery = parseStockCommand(rawCommand);
+    if (stockQuery !== null) {
+      if (!stockQuery) {
+        await bot.sendMessage(escapeHtml(`⚠️ 종목명 또는 종목코드를 입력해주세요.\n${STOCK_USAGE_TEXT}`), {}, chatId);
+        return new Response('OK', { status: 200 });
+      }
 
-  const parts = formatter.formatToParts(new Date(timestamp));
-  const getPart = (type: string) => parts.find(part => part.type === type)?.value || '';
+      await replyDomesticStock(bot, stockQuery, username, chatId);
+      return new Response('OK', { status: 200 });
+    }
 
-  return {
-    weekday: getPart('weekday'),
-    hour: Number(getPart('hour')),
-    minute: Number(getPart('minute')),
-  };
-}
+    // Finnhub 검색 명령어: ?AAPL, ?^GSPC, ?BTC-USD, ?tesla
+    if (rawCommand.startsWith('?')) {
+      const query = parseSearchCommand(rawCommand);
 
-function isNasdaqCloseReportTime(timestamp: number): boolean {
-  const { weekday, hour, minute } = getNewYorkTimeParts(timestamp);
+      if (!query) {
+        await bot.sendMessage(
+          '⚠️ 검색어가 비어 있습니다. 예: ?AAPL, ?^GSPC, ?BTC-USD',
+          {},
+          chatId,
+        );
+        return new Response('OK', { status: 200 });
+      }
 
-  return weekday !== 'Sat' && weekday !== 'Sun' && hour === 16 && minute === 10;
-}
+      // 6자리 종목코드나 한글 종목명은 Finnhub가 다루지 않으므로 네이버 국내 종목으로 조회
+      if (isDomesticStockQuery(query)) {
+        await replyDomesticStock(bot, query, username, chatId);
+        return new Response('OK', { status: 200 });
+      }
 
-async function sendNasdaqCloseStatus(env: Env, options: DailyBriefingOptions = {}) {
-  assertTelegramToken(env);
+      if (!env.FINNHUB_API_KEY) {
+        await bot.sendMessage(
+          '⚠️ FINNHUB_API_KEY가 설정되지 않았습니다. 관리자에게 문의해주세요.',
+          {},
+          chatId,
+        );
+        return new Response('OK', { status: 200 });
+      }
 
-  if (!options.chatId) {
-    assertTelegramDefaultChatId(env);
-  }
+      const finnhubResult = await getFinnhubMarketData(query, env.FINNHUB_API_KEY);
 
-  const bot = createTelegramBot({
-    TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
-    TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || options.chatId || '',
-  });
+      if (finnhubResult.status === 'not_found') {
+        await bot.sendMessage(
+          `⚠️ "${query}" 검색 결과가 없습니다.\n예: ?AAPL, ?^GSPC, ?BTC-USD`,
+          {},
+          chatId,
+        );
+        return new Response('OK', { status: 200 });
+      }
 
-  const [chartUrl, nasdaqStatus] = await Promise.all([
-    getNasdaqThirtyDayChartUrl(),
-    getNasdaqCloseStatus(),
-  ]);
+      if (finnhubResult.status === 'error') {
+        console.error('Finnhub lookup error:', finnhubResult.reason);
+        await bot.sendMessage(
+          '⚠️ Finnhub 조회 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
+          {},
+          chatId,
+        );
+        return new Response('OK', { status: 200 });
+      }
 
-  let chartMessage = null;
-  if (chartUrl) {
-    chartMessage = await bot.sendPhoto(chartUrl, '<b>📈 나스닥 최근 30거래일 추이</b>', options.chatId);
+      await bot.sendMarketDataMessage(
+        username,
+        finnhubResult.data.name,
+        finnhubResult.data.value,
+        finnhubResult.data.change,
+        chatId,
+        undefined,
+        buildQuoteKeyboard({ source: 'finnhub', symbol: finnhubResult.data.symbol }),
+      );
 
-    if (chartMessage.ok) {
-      console.log(`${options.logPrefix || 'NASDAQ close status'} chart image sent successfully`);
-    } else {
-      console.error(`${options.logPrefix || 'NASDAQ close status'} chart image failed:`, chartMessage.description);
+      return new Response('OK', { status: 200 });
     }
-  } else {
-    console.warn(`${options.logPrefix || 'NASDAQ close status'} chart image skipped: no chart URL`);
-  }
 
-  if (!nasdaqStatus) {
-    throw new Error('Failed to fetch NASDAQ close status');
-  }
+    // 명령어 파싱
+    const marketType = parseMarketCommand(rawCommand, isGroupChat);
+
+    if (!marketType) {
+      // 알 수 없는 명령어는 무시
+      return new Response('OK', { status: 200 });
+    }
 
-  const message = await bot.sendNasdaqCloseStatusMessage(nasdaqStatus, options.chatId);
+    // 시세 정보 가져오기
+    const marketData = await getMarketData(marketType, env.FINNHUB_API_KEY);
 
-  if (message.ok) {
-    console.log(`${options.logPrefix || 'NASDAQ close status'} message sent successfully`);
-  } else {
-    console.error(`${options.logPrefix || 'NASDAQ close status'} message failed:`, message.description);
-  }
+    if (!marketData) {
+      await bot.sendMessage(`⚠️ 시세 정보를 가져오는데 실패했습니다. 잠시 후 다시 시도해주세요.`, {}, chatId);
+      return new Response('OK', { status: 200 });
+    }
 
-  return { chartUrl, chartMessage, message, nasdaqStatus };
+    // 텔레그램으로 응답 (메시지를 보낸 채팅방으로 답변)
+    await bot.sendMarketDataMessage(
+      username,
+      marketData.name,
+      marketData.value,
+      marketData.change,
+      chatId,
+      marketData.provider === 'finnhub' ? 'https://finnhub.io' : 'https://finance.naver.com',
+      buildQuoteKeyboard({ source: 'naver', marketType }),
+    );
+
+    return new Response('OK', { status: 200 });
+  } catch (error) {
+    console.error('Webhook error:', error);
+    // 오류 발생 시에도 200 반환 (텔레그램 웹훅이 재시도하지 않도록)
+    try {
+      if (parsedUpdate.message?.chat?.id && env.TELEGRAM_BOT_TOKEN) {
+        const bot = createTelegramBot({
+          TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
+          TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || parsedUpdate.message.chat.id.toString(),
+          TELEGRAM_CAPTURE: env.TELEGRAM_CAPTURE,
+        });
+        await bot.sendMessage(
+          `⚠️ 요청 처리 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.`,
+          {},
+          parsedUpdate.message.chat.id.toString(),
+        );
+      }
+    } catch {
+      // 오류 메시지 전송 실패 시 무시
+    }
+    return new Response('OK', { status: 200 });
+  }
 }
 
+// wrangler.toml durable_objects 바인딩이 찾는 클래스는 메인 모듈에서 내보내야 한다
+export { RateLimiter } from './rateLimit';
+
 export default {
   /**
    * HTTP 요청 핸들러 (텔레그램 웹훅 + 테스트 엔드포인트)
    */
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
+    configureFixtureMode(env.FIXTURE_MODE);
+
+    if (ADMIN_PATHS.has(url.pathname)) {
+      const auth = verifyAdminToken(request, env);
+
+      if (!auth.ok) {
+        logRejectedRequest('admin', request, auth.reason);
+        return new Response('Unauthorized', {
+          status: 401,
+          headers: { 'WWW-Authenticate': 'Bearer' },
+        });
+      }
+    }
+
+    // 테스트 엔드포인트는 오늘 이미 발송한 작업이면 건너뜀 (?force=true로 다시 발송)
+    const forceDelivery = url.searchParams.get('force') === 'true';
 
     // 테스트용 엔드포인트: GET /test
     if (request.method === 'GET' && url.pathname === '/test') {
       try {
-        const result = await sendDailyBriefing(env, { logPrefix: 'HTTP /test' });
+        assertTelegramDefaultChatId(env);
+
+        const result = await runDeliveryOnce(
+          env,
+          { job: 'daily-briefing', date: getDeliveryDate('daily-briefing', Date.now()), chatId: env.TELEGRAM_CHAT_ID },
+          {
+            trigger: 'manual',
+            logPrefix: 'HTTP /test',
+            force: forceDelivery,
+            summarize: result => summarizeDailyBriefing(result, toJobDeliveries(env.TELEGRAM_CHAT_ID, result.message)),
+          },
+          () => sendDailyBriefing(env, { logPrefix: 'HTTP /test' })
+        );
+
+        if (result.skipped) {
+          return createSkippedDeliveryResponse('manual-test', result);
+        }
 
         return new Response(JSON.stringify({
+          skipped: false,
           message: result.message,
-          charts: result.charts,
+          charts: {
+            kospi: describeChart(result.charts.kospi),
+            usd: describeChart(result.charts.usd),
+          },
         }, null, 2), {
           status: result.message.ok ? 200 : 500,
           headers: { 'Content-Type': 'application/json' },
@@ -190,14 +1752,34 @@ export default {
     // Cron과 동일한 발송 로직을 수동 실행하는 테스트 엔드포인트
     if (request.method === 'GET' && url.pathname === '/test-scheduled') {
       try {
-        const result = await sendDailyBriefing(env, { logPrefix: 'HTTP /test-scheduled' });
+        const result = await runDeliveryOnce(
+          env,
+          { job: 'daily-briefing', date: getDeliveryDate('daily-briefing', Date.now()), manual: true },
+          {
+            trigger: 'manual',
+            logPrefix: 'HTTP /test-scheduled',
+            force: forceDelivery,
+            summarize: result => summarizeDailyBriefing(result, result.deliveries),
+          },
+          () => broadcastDailyBriefing(env, 'HTTP /test-scheduled')
+        );
+
+        if (result.skipped) {
+          return createSkippedDeliveryResponse('manual-scheduled-test', result);
+        }
+
+        const allDelivered = result.deliveries.every(delivery => delivery.ok);
 
         return new Response(JSON.stringify({
           trigger: 'manual-scheduled-test',
-          message: result.message,
-          charts: result.charts,
+          skipped: false,
+          deliveries: result.deliveries,
+          charts: {
+            kospi: describeChart(result.charts.kospi),
+            usd: describeChart(result.charts.usd),
+          },
         }, null, 2), {
-          status: result.message.ok ? 200 : 500,
+          status: allDelivered ? 200 : 500,
           headers: { 'Content-Type': 'application/json' },
         });
       } catch (error) {
@@ -205,17 +1787,34 @@ export default {
       }
     }
 
-    // 나스닥 장마감 현황 발송 로직을 수동 실행하는 테스트 엔드포인트
+    // 미국 증시 장마감 현황 발송 로직을 수동 실행하는 테스트 엔드포인트
     if (request.method === 'GET' && url.pathname === '/test-nasdaq-close') {
       try {
-        const result = await sendNasdaqCloseStatus(env, { logPrefix: 'HTTP /test-nasdaq-close' });
+        assertTelegramDefaultChatId(env);
+
+        const result = await runDeliveryOnce(
+          env,
+          { job: 'nasdaq-close-status', date: getDeliveryDate('nasdaq-close-status', Date.now()), chatId: env.TELEGRAM_CHAT_ID },
+          {
+            trigger: 'manual',
+            logPrefix: 'HTTP /test-nasdaq-close',
+            force: forceDelivery,
+            summarize: result => summarizeNasdaqClose(result, toJobDeliveries(env.TELEGRAM_CHAT_ID, result.message)),
+          },
+          () => sendNasdaqCloseStatus(env, { logPrefix: 'HTTP /test-nasdaq-close' })
+        );
+
+        if (result.skipped) {
+          return createSkippedDeliveryResponse('manual-nasdaq-close-test', result);
+        }
 
         return new Response(JSON.stringify({
           trigger: 'manual-nasdaq-close-test',
-          chartGenerated: !!result.chartUrl,
-          chartMessage: result.chartMessage,
+          skipped: false,
+          charts: result.charts.map(({ code, chart }) => ({ code, chart: describeChart(chart) })),
+          chartMessages: result.chartMessages,
           message: result.message,
-          nasdaqStatus: result.nasdaqStatus,
+          statuses: result.statuses,
         }, null, 2), {
           status: result.message.ok ? 200 : 500,
           headers: { 'Content-Type': 'application/json' },
@@ -225,167 +1824,194 @@ export default {
       }
     }
 
-    // 텔레그램 웹훅: POST 요청만 처리
-    if (request.method !== 'POST') {
-      return new Response('Method not allowed', { status: 405 });
-    }
+    // 미국 증시 모닝 브리핑 발송 로직을 수동 실행하는 테스트 엔드포인트
+    if (request.method === 'GET' && url.pathname === '/test-us-overnight') {
+      try {
+        assertTelegramDefaultChatId(env);
+
+        const result = await runDeliveryOnce(
+          env,
+          { job: 'us-overnight-briefing', date: getDeliveryDate('us-overnight-briefing', Date.now()), chatId: env.TELEGRAM_CHAT_ID },
+          {
+            trigger: 'manual',
+            logPrefix: 'HTTP /test-us-overnight',
+            force: forceDelivery,
+            summarize: result => summarizeUsOvernight(result.summary, toJobDeliveries(env.TELEGRAM_CHAT_ID, result.message)),
+          },
+          () => sendUsOvernightBriefing(env, { logPrefix: 'HTTP /test-us-overnight' })
+        );
 
-    let update: TelegramUpdate | null = null;
+        if (result.skipped) {
+          return createSkippedDeliveryResponse('manual-us-overnight-test', result);
+        }
 
-    try {
-      assertTelegramToken(env);
-      const parsedUpdate = await request.json() as TelegramUpdate;
-      update = parsedUpdate;
-      const message = parsedUpdate.message;
-      
-      // 메시지가 없으면 무시
-      if (!message?.text) {
-        return new Response('OK', { status: 200 });
+        return new Response(JSON.stringify({
+          trigger: 'manual-us-overnight-test',
+          skipped: false,
+          summary: result.summary,
+          message: result.message,
+        }, null, 2), {
+          status: result.message.ok ? 200 : 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        return new Response(`Error: ${error}`, { status: 500 });
       }
+    }
 
-      console.log('Telegram webhook chat:', {
-        updateId: parsedUpdate.update_id,
-        messageId: message.message_id,
-        chatId: message.chat.id,
-        chatType: message.chat.type,
-        chatTitle: message.chat.title,
-        chatUsername: message.chat.username,
-        fromId: message.from?.id,
-        fromUsername: message.from?.username,
-      });
+    // 주간·월간 리캡 발송 로직을 수동 실행하는 테스트 엔드포인트: GET /test-recap?period=weekly|monthly
+    if (request.method === 'GET' && url.pathname === '/test-recap') {
+      const period = url.searchParams.get('period') || 'weekly';
 
-      const rawCommand = message.text.trim();
-      const command = rawCommand.toLowerCase();
-      const chatId = message.chat.id.toString();
-      
-      // from이 없는 경우 (채널 메시지, 익명 관리자 등)
-      if (!message.from) {
-        return new Response('OK', { status: 200 });
+      if (period !== 'weekly' && period !== 'monthly') {
+        return new Response('period must be weekly or monthly', { status: 400 });
       }
-      
-      const username = message.from.username || message.from.first_name;
-      const bot = createTelegramBot({
-        TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
-        TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || chatId,
-      });
 
-      // "now" 명령어: 일일 브리핑 즉시 발송
-      if (command === 'now') {
-        await sendDailyBriefing(env, {
-          chatId,
-          logPrefix: 'Telegram now',
-        });
+      try {
+        assertTelegramDefaultChatId(env);
+
+        const job = period === 'weekly' ? 'weekly-recap' : 'monthly-recap';
+        const result = await runDeliveryOnce(
+          env,
+          { job, date: getDeliveryDate(job, Date.now()), chatId: env.TELEGRAM_CHAT_ID },
+          {
+            trigger: 'manual',
+            logPrefix: 'HTTP /test-recap',
+            force: forceDelivery,
+            summarize: result => summarizeMarketRecap(result.recap, toJobDeliveries(env.TELEGRAM_CHAT_ID, result.message)),
+          },
+          () => sendMarketRecap(env, period, { logPrefix: 'HTTP /test-recap' })
+        );
 
-        return new Response('OK', { status: 200 });
+        if (result.skipped) {
+          return createSkippedDeliveryResponse('manual-recap-test', result);
+        }
+
+        return new Response(JSON.stringify({
+          trigger: 'manual-recap-test',
+          skipped: false,
+          period,
+          startDate: result.recap.startDate,
+          endDate: result.recap.endDate,
+          markets: result.recap.items.map(item => item.marketType),
+          chart: describeChart(result.recap.chart),
+          chartMessage: result.chartMessage,
+          message: result.message,
+        }, null, 2), {
+          status: result.message.ok ? 200 : 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        return new Response(`Error: ${error}`, { status: 500 });
       }
+    }
 
-      // Finnhub 검색 명령어: ?AAPL, ?^GSPC, ?BTC-USD, ?tesla
-      if (rawCommand.startsWith('?')) {
-        const query = parseSearchCommand(rawCommand);
+    // 관리자 상태 점검: GET /status (작업별 최근 실행 기록 + 외부 소스 실시간 점검)
+    if (request.method === 'GET' && url.pathname === '/status') {
+      try {
+        assertBotState(env);
 
-        if (!query) {
-          await bot.sendMessage(
-            '⚠️ 검색어가 비어 있습니다. 예: ?AAPL, ?^GSPC, ?BTC-USD',
-            {},
-            chatId,
-          );
-          return new Response('OK', { status: 200 });
-        }
+        const report = await getStatusReport(env.BOT_STATE, env.FINNHUB_API_KEY);
 
-        if (!env.FINNHUB_API_KEY) {
-          await bot.sendMessage(
-            '⚠️ FINNHUB_API_KEY가 설정되지 않았습니다. 관리자에게 문의해주세요.',
-            {},
-            chatId,
-          );
-          return new Response('OK', { status: 200 });
-        }
+        return new Response(JSON.stringify(report, null, 2), {
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        return new Response(`Error: ${error}`, { status: 500 });
+      }
+    }
 
-        const finnhubResult = await getFinnhubMarketData(query, env.FINNHUB_API_KEY);
+    // 텔레그램 명령어 메뉴 등록: POST /set-commands
+    if (request.method === 'POST' && url.pathname === '/set-commands') {
+      try {
+        assertTelegramToken(env);
 
-        if (finnhubResult.status === 'not_found') {
-          await bot.sendMessage(
-            `⚠️ "${query}" 검색 결과가 없습니다.\n예: ?AAPL, ?^GSPC, ?BTC-USD`,
-            {},
-            chatId,
-          );
-          return new Response('OK', { status: 200 });
-        }
+        const bot = createTelegramBot(env);
+        const results = [];
 
-        if (finnhubResult.status === 'error') {
-          console.error('Finnhub lookup error:', finnhubResult.reason);
-          await bot.sendMessage(
-            '⚠️ Finnhub 조회 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
-            {},
-            chatId,
-          );
-          return new Response('OK', { status: 200 });
+        for (const { languageCode, language } of COMMAND_MENU_LANGUAGES) {
+          const response = await bot.setMyCommands(getBotCommandList(language), languageCode);
+          results.push({ languageCode: languageCode || 'default', ok: response.ok, description: response.description });
         }
 
-        await bot.sendMarketDataMessage(
-          username,
-          finnhubResult.data.name,
-          finnhubResult.data.value,
-          finnhubResult.data.change,
-          chatId,
-        );
+        const allRegistered = results.every(result => result.ok);
+        console.log('HTTP /set-commands finished:', results);
 
-        return new Response('OK', { status: 200 });
+        return new Response(JSON.stringify({ results }, null, 2), {
+          status: allRegistered ? 200 : 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        return new Response(`Error: ${error}`, { status: 500 });
       }
+    }
 
-      // 명령어 파싱
-      const marketType = parseCommand(rawCommand);
+    // 업데이트 재생: POST /replay (텔레그램으로 보내지 않고 보냈을 메시지 목록 반환)
+    if (request.method === 'POST' && url.pathname === '/replay') {
+      let update: TelegramUpdate;
 
-      if (!marketType) {
-        // 알 수 없는 명령어는 무시
-        return new Response('OK', { status: 200 });
+      try {
+        update = await request.json() as TelegramUpdate;
+      } catch {
+        return new Response('Invalid TelegramUpdate JSON', { status: 400 });
       }
 
-      // 시세 정보 가져오기
-      const marketData = await getMarketData(marketType);
+      // 요청 단위 fixture 모드 + 기록 목록 + 메모리 KV: 실제 API·BOT_STATE·요청 한도에 영향 없음
+      const messages: CapturedTelegramCall[] = [];
 
-      if (!marketData) {
-        await bot.sendMessage(`⚠️ 시세 정보를 가져오는데 실패했습니다. 잠시 후 다시 시도해주세요.`, {}, chatId);
-        return new Response('OK', { status: 200 });
-      }
+      await runWithFixtureMode(() => handleTelegramUpdate(
+        {
+          ...env,
+          TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN || 'replay',
+          TELEGRAM_CAPTURE: messages,
+          BOT_STATE: createReplayKv(env.BOT_STATE),
+          RATE_LIMITER: undefined,
+        },
+        update,
+      ));
 
-      // 텔레그램으로 응답 (메시지를 보낸 채팅방으로 답변)
-      await bot.sendMarketDataMessage(
-        username,
-        marketData.name,
-        marketData.value,
-        marketData.change,
-        chatId,
-        'https://finance.naver.com',
-      );
+      console.log('HTTP /replay finished:', { updateId: update.update_id, messages: messages.length });
 
-      return new Response('OK', { status: 200 });
+      return new Response(JSON.stringify({ fixtureMode: true, messages }, null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // 텔레그램 웹훅: POST 요청만 처리
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    // 웹훅 secret token 검증 (본문 파싱 전)
+    const webhookAuth = verifyWebhookSecret(request, env);
+    if (!webhookAuth.ok) {
+      logRejectedRequest('webhook', request, webhookAuth.reason);
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    let update: TelegramUpdate;
+
+    try {
+      update = await request.json() as TelegramUpdate;
     } catch (error) {
       console.error('Webhook error:', error);
-      // 오류 발생 시에도 200 반환 (텔레그램 웹훅이 재시도하지 않도록)
-      try {
-        if (update?.message?.chat?.id && env.TELEGRAM_BOT_TOKEN) {
-          const bot = createTelegramBot({
-            TELEGRAM_BOT_TOKEN: env.TELEGRAM_BOT_TOKEN,
-            TELEGRAM_CHAT_ID: env.TELEGRAM_CHAT_ID || update.message.chat.id.toString(),
-          });
-          await bot.sendMessage(
-            `⚠️ 요청 처리 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.`,
-            {},
-            update.message.chat.id.toString(),
-          );
-        }
-      } catch {
-        // 오류 메시지 전송 실패 시 무시
-      }
       return new Response('OK', { status: 200 });
     }
+
+    // 응답이 늦어 텔레그램이 같은 업데이트를 재전송한 경우 (예: 차트 2개를 그리는 `now`)
+    if (!await claimTelegramUpdate(env.BOT_STATE, update.update_id)) {
+      console.log('Duplicate webhook update skipped:', { updateId: update.update_id });
+      return new Response('OK', { status: 200 });
+    }
+
+    return handleTelegramUpdate(env, update);
   },
 
   /**
    * 스케줄 트리거 핸들러 (Cron)
    */
   async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
+    configureFixtureMode(env.FIXTURE_MODE);
     const jobType = getScheduledJobType(event.cron);
     console.log('Scheduled event triggered:', {
       cron: event.cron,
@@ -393,20 +2019,114 @@ export default {
       jobType,
     });
 
-    ctx.waitUntil((async () => {
+    // 정기 발송은 캐시를 읽지 않고 최신 데이터로 캐시를 갱신
+    ctx.waitUntil(runWithFreshCache(async () => {
       try {
         if (jobType === 'daily-briefing') {
-          await sendDailyBriefing(env, { logPrefix: 'Scheduled daily briefing' });
+          const seoulDate = getDateInTimeZone(event.scheduledTime, 'Asia/Seoul');
+          const krxDay = getKrxTradingDay(seoulDate);
+
+          if (!hasKrxHolidayTable(Number(seoulDate.slice(0, 4)))) {
+            console.warn(`KRX holiday table missing for ${seoulDate.slice(0, 4)}; only fixed-date holidays are checked`);
+          }
+
+          if (!krxDay.isTradingDay) {
+            console.log('Skipping daily briefing on KRX holiday:', krxDay);
+            return;
+          }
+
+          await runDeliveryOnce(
+            env,
+            { job: jobType, date: seoulDate },
+            {
+              trigger: 'scheduled',
+              logPrefix: 'Scheduled daily briefing',
+              summarize: result => summarizeDailyBriefing(result, result.deliveries),
+            },
+            () => broadcastDailyBriefing(env, 'Scheduled daily briefing')
+          );
+          return;
+        }
+
+        if (jobType === 'weekly-recap' || jobType === 'monthly-recap') {
+          const period: RecapPeriod = jobType === 'weekly-recap' ? 'weekly' : 'monthly';
+          await runDeliveryOnce(
+            env,
+            { job: jobType, date: getDeliveryDate(jobType, event.scheduledTime) },
+            {
+              trigger: 'scheduled',
+              logPrefix: `Scheduled ${period} recap`,
+              summarize: result => summarizeMarketRecap(result.recap, result.deliveries),
+            },
+            () => broadcastMarketRecap(env, period, event.scheduledTime, `Scheduled ${period} recap`)
+          );
+          return;
+        }
+
+        if (jobType === 'us-overnight-briefing') {
+          // UTC 22:30은 뉴욕 기준 같은 날 저녁이므로 그날이 미국 거래일일 때만 발송
+          const newYorkDate = getNewYorkTimeParts(event.scheduledTime).date;
+          const usDay = getUsTradingDay(newYorkDate);
+
+          if (!usDay.isTradingDay) {
+            console.log('Skipping US overnight briefing after US market holiday:', usDay);
+            return;
+          }
+
+          await runDeliveryOnce(
+            env,
+            { job: jobType, date: newYorkDate },
+            {
+              trigger: 'scheduled',
+              logPrefix: 'Scheduled US overnight briefing',
+              summarize: result => summarizeUsOvernight(result.summary, result.deliveries),
+            },
+            () => broadcastUsOvernightBriefing(env, 'Scheduled US overnight briefing')
+          );
           return;
         }
 
         if (jobType === 'nasdaq-close-status') {
+          const newYorkDate = getNewYorkTimeParts(event.scheduledTime).date;
+          const usDay = getUsTradingDay(newYorkDate);
+
+          if (!usDay.isTradingDay) {
+            console.log('Skipping NASDAQ close status on US market holiday:', usDay);
+            return;
+          }
+
           if (!isNasdaqCloseReportTime(event.scheduledTime)) {
-            console.log('Skipping NASDAQ close status outside 16:10 America/New_York');
+            console.log('Skipping NASDAQ close status outside close+10min America/New_York:', {
+              closeTime: usDay.closeTime,
+              isEarlyClose: usDay.isEarlyClose,
+            });
             return;
           }
 
-          await sendNasdaqCloseStatus(env, { logPrefix: 'Scheduled NASDAQ close status' });
+          await runDeliveryOnce(
+            env,
+            { job: jobType, date: newYorkDate },
+            {
+              trigger: 'scheduled',
+              logPrefix: 'Scheduled NASDAQ close status',
+              summarize: result => summarizeNasdaqClose(result, result.deliveries),
+            },
+            () => broadcastNasdaqCloseStatus(env, 'Scheduled NASDAQ close status')
+          );
+          return;
+        }
+
+        if (jobType === 'price-alerts') {
+          await runTrackedJob(
+            env,
+            'price-alerts',
+            {
+              trigger: 'scheduled',
+              logPrefix: 'Scheduled price alerts',
+              summarize: result => ({ sources: result.sources, charts: [], deliveries: result.deliveries }),
+            },
+            () => checkPriceAlerts(env, { logPrefix: 'Scheduled price alerts' })
+          );
           return;
         }
 
@@ -414,6 +2134,6 @@ export default {
       } catch (error) {
         console.error('Scheduled task error:', error);
       }
-    })());
+    }));
   },
 };
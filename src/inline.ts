@@ -0,0 +1,78 @@
+/**
+ * 인라인 모드 시세 조회 모듈
+ *
+ * 봇이 없는 채팅방에서도 `@봇이름 코스피`, `@봇이름 AAPL` 형태로 시세를 공유할 수 있다.
+ * 타이핑 중 재요청은 텔레그램 서버 측 cache_time과 시세 조회의 공유 캐시(withCache)가 흡수한다.
+ */
+
+import { ChangeInfo, getFinnhubMarketData, MarketType, parseCommand } from './scraper';
+import { getMarketData } from './providers';
+
+// 텔레그램 서버 측 인라인 결과 캐시 시간 (answerInlineQuery cache_time)
+export const INLINE_CACHE_TTL_SECONDS = 60;
+
+// 검색어가 비어 있을 때 보여줄 주요 시장
+const DEFAULT_INLINE_MARKETS: MarketType[] = ['kospi', 'kosdaq', 'nasdaq', 'usd'];
+
+export interface InlineQuote {
+  id: string;               // 인라인 결과 ID (64바이트 이하)
+  name: string;
+  value: string;
+  change?: ChangeInfo;
+  sourceUrl: string;
+}
+
+async function fetchMarketInlineQuotes(marketTypes: MarketType[], finnhubApiKey?: string): Promise<InlineQuote[]> {
+  const results = await Promise.all(marketTypes.map(type => getMarketData(type, finnhubApiKey)));
+
+  return results.flatMap(data => data
+    ? [{
+      id: `market:${data.type}`,
+      name: data.name,
+      value: data.value,
+      change: data.change,
+      sourceUrl: data.provider === 'finnhub' ? 'https://finnhub.io' : 'https://finance.naver.com',
+    }]
+    : []);
+}
+
+async function fetchFinnhubInlineQuotes(query: string, finnhubApiKey?: string): Promise<InlineQuote[]> {
+  if (!finnhubApiKey) {
+    return [];
+  }
+
+  const result = await getFinnhubMarketData(query, finnhubApiKey);
+
+  if (result.status === 'error') {
+    console.error('Inline Finnhub lookup error:', result.reason);
+    return [];
+  }
+
+  if (result.status === 'not_found') {
+    return [];
+  }
+
+  return [{
+    id: `finnhub:${result.data.symbol}`.slice(0, 64),
+    name: result.data.name,
+    value: result.data.value,
+    change: result.data.change,
+    sourceUrl: result.data.sourceUrl,
+  }];
+}
+
+/**
+ * 인라인 검색어에 해당하는 시세 목록 (네이버 시세 별칭 우선, 없으면 Finnhub 검색)
+ */
+export async function getInlineQuotes(query: string, finnhubApiKey?: string): Promise<InlineQuote[]> {
+  const trimmed = query.trim();
+
+  if (!trimmed) {
+    return fetchMarketInlineQuotes(DEFAULT_INLINE_MARKETS, finnhubApiKey);
+  }
+
+  const marketType = parseCommand(trimmed);
+  return marketType
+    ? fetchMarketInlineQuotes([marketType], finnhubApiKey)
+    : fetchFinnhubInlineQuotes(trimmed, finnhubApiKey);
+}
@@ -0,0 +1,20 @@
+/**
+ * BOT_STATE KV 접근 인터페이스
+ *
+ * 봇 코드가 쓰는 get(text/json), put, delete, list만 추린 타입으로, 실제 KVNamespace와
+ * /replay용 메모리 KV(createReplayKv)가 모두 이 타입을 만족한다.
+ */
+
+export interface BotStateKvListResult {
+  keys: Array<{ name: string }>;
+  list_complete: boolean;
+  cursor?: string;
+}
+
+export interface BotStateKv {
+  get(key: string): Promise<string | null>;
+  get<T>(key: string, type: 'json'): Promise<T | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<BotStateKvListResult>;
+}
@@ -0,0 +1,132 @@
+/**
+ * 김치 프리미엄 모듈
+ *
+ * - `김프`, `김프 BTC`, `김프 ETH`: 업비트 원화 가격과 해외 거래소(Finnhub) USD 가격을 비교
+ * - 해외 가격은 네이버 USD/KRW 환율로 원화 환산
+ * - BRIEFING_KIMCHI_PREMIUM에 코인을 지정하면 일일 브리핑에 김치 프리미엄 표 추가
+ */
+
+import { getFinnhubCryptoUsdPrice, getUpbitKrwPrice, getUsd, KimchiPremium } from './scraper';
+
+const PREMIUM_COMMAND_PREFIX = '김프';
+const DEFAULT_PREMIUM_SYMBOL = 'BTC';
+const MAX_BRIEFING_PREMIUM_SYMBOLS = 5;
+
+export type PremiumCommand =
+  | { action: 'premium'; symbol: string }
+  | { action: 'invalid'; reason: string };
+
+export type KimchiPremiumResult =
+  | { status: 'ok'; premium: KimchiPremium }
+  | { status: 'not_found'; symbol: string; market: 'upbit' | 'global' }
+  | { status: 'error'; symbol: string; reason: string };
+
+export const PREMIUM_USAGE_TEXT = [
+  '사용법:',
+  '• 김프',
+  '• 김프 BTC',
+  '• 김프 ETH',
+].join('\n');
+
+function normalizePremiumSymbol(value: string): string | null {
+  const upper = value.trim().toUpperCase();
+  return /^[A-Z0-9]{2,10}$/.test(upper) ? upper : null;
+}
+
+/**
+ * 김프 명령어 파싱 (심볼을 생략하면 BTC)
+ */
+export function parsePremiumCommand(command: string): PremiumCommand | null {
+  const trimmed = command.trim();
+
+  if (trimmed !== PREMIUM_COMMAND_PREFIX && !trimmed.startsWith(`${PREMIUM_COMMAND_PREFIX} `)) {
+    return null;
+  }
+
+  const argument = trimmed.slice(PREMIUM_COMMAND_PREFIX.length).trim();
+
+  if (!argument) {
+    return { action: 'premium', symbol: DEFAULT_PREMIUM_SYMBOL };
+  }
+
+  const symbol = normalizePremiumSymbol(argument);
+  return symbol
+    ? { action: 'premium', symbol }
+    : { action: 'invalid', reason: `"${argument}"은(는) 올바른 코인 심볼이 아닙니다.` };
+}
+
+/**
+ * 브리핑 김치 프리미엄 대상 코인 (예: "BTC,ETH", 미설정 시 빈 배열 = 표시 안 함)
+ */
+export function parseBriefingPremiumSymbols(value?: string): string[] {
+  const symbols = (value || '')
+    .split(',')
+    .map(normalizePremiumSymbol)
+    .filter((symbol): symbol is string => symbol !== null);
+
+  return [...new Set(symbols)].slice(0, MAX_BRIEFING_PREMIUM_SYMBOLS);
+}
+
+/**
+ * 김치 프리미엄 계산
+ */
+export async function getKimchiPremium(symbol: string, finnhubApiKey?: string): Promise<KimchiPremiumResult> {
+  if (!finnhubApiKey) {
+    return { status: 'error', symbol, reason: 'Missing FINNHUB_API_KEY' };
+  }
+
+  try {
+    const [krwPrice, usdQuote, usd] = await Promise.all([
+      getUpbitKrwPrice(symbol),
+      getFinnhubCryptoUsdPrice(symbol, finnhubApiKey),
+      getUsd(),
+    ]);
+
+    if (krwPrice === null) {
+      return { status: 'not_found', symbol, market: 'upbit' };
+    }
+
+    if (!usdQuote) {
+      return { status: 'not_found', symbol, market: 'global' };
+    }
+
+    const usdKrwRate = Number((usd.value || '').replace(/,/g, ''));
+
+    if (!Number.isFinite(usdKrwRate) || usdKrwRate <= 0) {
+      return { status: 'error', symbol, reason: 'USD/KRW rate unavailable' };
+    }
+
+    const globalKrwPrice = usdQuote.price * usdKrwRate;
+
+    return {
+      status: 'ok',
+      premium: {
+        symbol,
+        krwPrice,
+        usdPrice: usdQuote.price,
+        usdSymbol: usdQuote.symbol,
+        usdKrwRate,
+        globalKrwPrice,
+        premiumPercent: (krwPrice / globalKrwPrice - 1) * 100,
+      },
+    };
+  } catch (error) {
+    return { status: 'error', symbol, reason: String(error) };
+  }
+}
+
+/**
+ * 브리핑용 김치 프리미엄 목록 (실패한 코인은 로그만 남기고 제외)
+ */
+export async function getBriefingKimchiPremiums(symbols: string[], finnhubApiKey?: string): Promise<KimchiPremium[]> {
+  const results = await Promise.all(symbols.map(symbol => getKimchiPremium(symbol, finnhubApiKey)));
+
+  return results.flatMap(result => {
+    if (result.status === 'ok') {
+      return [result.premium];
+    }
+
+    console.warn('Briefing kimchi premium skipped:', result);
+    return [];
+  });
+}
@@ -0,0 +1,320 @@
+/**
+ * 시세 데이터 제공자(provider) 모듈
+ *
+ * 시장별로 제공자 우선순위(fallback chain)를 두고, 앞선 제공자가 실패하거나 빈 값을 주면
+ * 다음 제공자로 넘어간다. 응답에는 실제로 값을 준 제공자를 provider 필드로 남긴다.
+ *
+ * - naver: 네이버 금융 (기본)
+ * - finnhub: Finnhub (FINNHUB_API_KEY가 있을 때만 사용)
+ */
+
+import {
+  DailyClosePrice,
+  DailyMarketSummary,
+  getChf,
+  getCny,
+  getEur,
+  getFinnhubCandleCloses,
+  getFinnhubKrwRate,
+  getFinnhubQuote,
+  getGbp,
+  getGold,
+  getJpy,
+  getKosdaq,
+  getKospi,
+  getKr3y,
+  getNasdaq,
+  getNaverDailyCloses,
+  getUs10y,
+  getUsd,
+  getWti,
+  MARKET_NAMES,
+  MarketData,
+  MarketSummaryItem,
+  MarketType,
+  ProviderName,
+} from './scraper';
+
+export interface ProbeResult {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ProviderStatus extends ProbeResult {
+  provider: ProviderName;
+}
+
+export interface MarketDailyCloses {
+  provider: ProviderName | null;
+  prices: DailyClosePrice[];
+}
+
+export interface MarketDataProvider {
+  name: ProviderName;
+  /** 현재 시세 (지원하지 않거나 실패하면 null) */
+  quote(marketType: MarketType): Promise<MarketSummaryItem | null>;
+  /** 최근 N거래일 종가 (오래된 순, 지원하지 않거나 실패하면 빈 배열) */
+  history(marketType: MarketType, days: number): Promise<DailyClosePrice[]>;
+  /** 제공자 API 상태 점검 */
+  status(): Promise<ProviderStatus>;
+}
+
+// 시장별 제공자 우선순위
+export const MARKET_PROVIDER_CHAINS: Record<MarketType, ProviderName[]> = {
+  kospi: ['naver', 'finnhub'],
+  kosdaq: ['naver', 'finnhub'],
+  nasdaq: ['naver', 'finnhub'],
+  usd: ['naver', 'finnhub'],
+  eur: ['naver', 'finnhub'],
+  jpy: ['naver', 'finnhub'],
+  gbp: ['naver', 'finnhub'],
+  chf: ['naver', 'finnhub'],
+  cny: ['naver', 'finnhub'],
+  gold: ['naver'],
+  wti: ['naver'],
+  us10y: ['naver'],
+  kr3y: ['naver'],
+};
+
+const DAILY_SUMMARY_MARKETS = ['kospi', 'kosdaq', 'usd', 'eur', 'jpy', 'gbp', 'chf', 'cny'] as const;
+// 브리핑 원자재·금리 표 (BRIEFING_COMMODITIES)
+const COMMODITY_SUMMARY_MARKETS = ['gold', 'wti', 'us10y', 'kr3y'] as const;
+
+const NAVER_QUOTE_FETCHERS: Record<MarketType, () => Promise<MarketSummaryItem>> = {
+  kospi: getKospi,
+  kosdaq: getKosdaq,
+  nasdaq: getNasdaq,
+  usd: getUsd,
+  jpy: getJpy,
+  eur: getEur,
+  gbp: getGbp,
+  chf: getChf,
+  cny: getCny,
+  gold: getGold,
+  wti: getWti,
+  us10y: getUs10y,
+  kr3y: getKr3y,
+};
+
+// Finnhub 지수 심볼
+const FINNHUB_INDEX_SYMBOLS: Partial<Record<MarketType, string>> = {
+  kospi: '^KS11',
+  kosdaq: '^KQ11',
+  nasdaq: '^IXIC',
+};
+
+// Finnhub 환율 통화 코드
+const FINNHUB_CURRENCIES: Partial<Record<MarketType, string>> = {
+  usd: 'USD',
+  eur: 'EUR',
+  jpy: 'JPY',
+  gbp: 'GBP',
+  chf: 'CHF',
+  cny: 'CNY',
+};
+
+// Finnhub 일봉 조회 대상 (원화 교차 환율은 OANDA에 있는 통화만 지원)
+const FINNHUB_HISTORY_SYMBOLS: Partial<Record<MarketType, { path: string; symbol: string }>> = {
+  kospi: { path: '/stock/candle', symbol: '^KS11' },
+  kosdaq: { path: '/stock/candle', symbol: '^KQ11' },
+  nasdaq: { path: '/stock/candle', symbol: '^IXIC' },
+  usd: { path: '/forex/candle', symbol: 'OANDA:USD_KRW' },
+};
+
+/**
+ * 점검 함수의 응답 시간과 성공 여부 측정 (빈 응답이나 예외는 실패)
+ */
+export async function measureProbe(probe: () => Promise<boolean>): Promise<ProbeResult> {
+  const startedAt = Date.now();
+
+  try {
+    const ok = await probe();
+    return { ok, latencyMs: Date.now() - startedAt, error: ok ? undefined : 'empty response' };
+  } catch (error) {
+    return { ok: false, latencyMs: Date.now() - startedAt, error: String(error) };
+  }
+}
+
+async function measureStatus(provider: ProviderName, probe: () => Promise<boolean>): Promise<ProviderStatus> {
+  return { provider, ...await measureProbe(probe) };
+}
+
+/**
+ * 네이버 금융 제공자
+ */
+export function createNaverProvider(): MarketDataProvider {
+  return {
+    name: 'naver',
+    async quote(marketType) {
+      const item = await NAVER_QUOTE_FETCHERS[marketType]();
+      return item.value ? item : null;
+    },
+    history(marketType, days) {
+      return getNaverDailyCloses(marketType, days);
+    },
+    status() {
+      return measureStatus('naver', async () => !!(await getKospi()).value);
+    },
+  };
+}
+
+/**
+ * Finnhub 제공자
+ */
+export function createFinnhubProvider(apiKey: string): MarketDataProvider {
+  return {
+    name: 'finnhub',
+    async quote(marketType) {
+      try {
+        const indexSymbol = FINNHUB_INDEX_SYMBOLS[marketType];
+        if (indexSymbol) {
+          return await getFinnhubQuote(indexSymbol, apiKey);
+        }
+
+        const currency = FINNHUB_CURRENCIES[marketType];
+        if (currency) {
+          return await getFinnhubKrwRate(currency, apiKey);
+        }
+      } catch (error) {
+        console.error(`Finnhub provider quote failed for ${marketType}:`, error);
+      }
+
+      return null;
+    },
+    async history(marketType, days) {
+      const target = FINNHUB_HISTORY_SYMBOLS[marketType];
+      if (!target) return [];
+
+      try {
+        return await getFinnhubCandleCloses(target.path, target.symbol, days, apiKey) || [];
+      } catch (error) {
+        console.error(`Finnhub provider history failed for ${marketType}:`, error);
+        return [];
+      }
+    },
+    status() {
+      return measureStatus('finnhub', async () => !!(await getFinnhubKrwRate('USD', apiKey)));
+    },
+  };
+}
+
+/**
+ * 사용 가능한 제공자 목록 (Finnhub는 API 키가 있을 때만 포함)
+ */
+export function getProviders(finnhubApiKey?: string): { naver: MarketDataProvider; finnhub: MarketDataProvider | null } {
+  const key = finnhubApiKey?.trim();
+
+  return {
+    naver: createNaverProvider(),
+    finnhub: key ? createFinnhubProvider(key) : null,
+  };
+}
+
+function getProviderChain(marketType: MarketType, finnhubApiKey?: string): MarketDataProvider[] {
+  const providers = getProviders(finnhubApiKey);
+
+  return MARKET_PROVIDER_CHAINS[marketType]
+    .map(name => providers[name])
+    .filter((provider): provider is MarketDataProvider => provider !== null);
+}
+
+/**
+ * 시장 시세 조회 (제공자 우선순위대로 시도, 모두 실패하면 value: null)
+ */
+export async function getMarketSummaryItem(marketType: MarketType, finnhubApiKey?: string): Promise<MarketSummaryItem> {
+  const chain = getProviderChain(marketType, finnhubApiKey);
+
+  for (const [index, provider] of chain.entries()) {
+    try {
+      const item = await provider.quote(marketType);
+
+      if (item?.value) {
+        if (index > 0) {
+          console.warn(`${marketType} quote served by fallback provider:`, provider.name);
+        }
+        return { ...item, provider: provider.name };
+      }
+    } catch (error) {
+      console.error(`${provider.name} quote failed for ${marketType}:`, error);
+    }
+  }
+
+  return { value: null };
+}
+
+/**
+ * 특정 시세 정보 가져오기
+ */
+export async function getMarketData(type: MarketType, finnhubApiKey?: string): Promise<MarketData | null> {
+  const result = await getMarketSummaryItem(type, finnhubApiKey);
+
+  if (!result.value) {
+    return null;
+  }
+
+  return {
+    type,
+    name: MARKET_NAMES[type],
+    value: result.value,
+    change: result.change,
+    provider: result.provider,
+  };
+}
+
+/**
+ * 일일 시장 종합 정보 가져오기 (includeCommodities: 원자재·금리 포함)
+ */
+export async function getDailyMarketSummary(
+  finnhubApiKey?: string,
+  includeCommodities = false
+): Promise<DailyMarketSummary> {
+  // 병렬로 데이터 가져오기
+  const [[kospi, kosdaq, usd, eur, jpy, gbp, chf, cny], commodities] = await Promise.all([
+    Promise.all(DAILY_SUMMARY_MARKETS.map(marketType => getMarketSummaryItem(marketType, finnhubApiKey))),
+    includeCommodities
+      ? Promise.all(COMMODITY_SUMMARY_MARKETS.map(marketType => getMarketSummaryItem(marketType, finnhubApiKey)))
+      : Promise.resolve(null),
+  ]);
+
+  const summary: DailyMarketSummary = { kospi, kosdaq, usd, eur, jpy, gbp, chf, cny };
+
+  if (commodities) {
+    const [gold, wti, us10y, kr3y] = commodities;
+    Object.assign(summary, { gold, wti, us10y, kr3y });
+  }
+
+  return summary;
+}
+
+/**
+ * 시장별 최근 N거래일 종가 (제공자 우선순위대로 시도)
+ */
+export async function getMarketDailyCloses(
+  marketType: MarketType,
+  days: number,
+  finnhubApiKey?: string
+): Promise<MarketDailyCloses> {
+  for (const provider of getProviderChain(marketType, finnhubApiKey)) {
+    const prices = await provider.history(marketType, days);
+
+    if (prices.length > 0) {
+      return { provider: provider.name, prices };
+    }
+  }
+
+  return { provider: null, prices: [] };
+}
+
+/**
+ * 모든 제공자 상태 점검 (Finnhub API 키가 없으면 점검 없이 실패로 표시)
+ */
+export async function getProviderStatuses(finnhubApiKey?: string): Promise<ProviderStatus[]> {
+  const providers = getProviders(finnhubApiKey);
+
+  return Promise.all([
+    providers.naver.status(),
+    providers.finnhub?.status()
+      ?? Promise.resolve<ProviderStatus>({ provider: 'finnhub', ok: false, latencyMs: 0, error: 'FINNHUB_API_KEY not configured' }),
+  ]);
+}
@@ -0,0 +1,171 @@
+/**
+ * 시세 메시지 인라인 키보드 모듈
+ *
+ * 개별 시세 메시지에 "🔄 새로고침"과 "📈 차트" 버튼을 붙이고, 버튼의 callback_data를 해석한다.
+ * callback_data 형식: q:<r|c>:<m|f|k>:<marketType|symbol|종목코드> (텔레그램 제한 64바이트)
+ */
+
+import {
+  ChangeInfo,
+  DomesticStockData,
+  getDomesticStockData,
+  getFinnhubMarketData,
+  MarketType,
+  MARKET_NAMES,
+} from './scraper';
+import { getMarketData } from './providers';
+import { InlineKeyboardMarkup } from './telegram';
+
+const CALLBACK_PREFIX = 'q';
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+export type QuoteTarget =
+  | { source: 'naver'; marketType: MarketType }
+  | { source: 'finnhub'; symbol: string }
+  | { source: 'krx'; code: string };
+
+export type QuoteAction = 'refresh' | 'chart';
+
+export interface QuoteCallback {
+  action: QuoteAction;
+  target: QuoteTarget;
+}
+
+export interface MarketQuote {
+  name: string;
+  value: string;
+  change?: ChangeInfo;
+  sourceUrl: string;
+  stock?: DomesticStockData;  // 국내 종목이면 거래량/시가총액 포함 원본
+}
+
+const ACTION_CODES: Record<QuoteAction, string> = {
+  refresh: 'r',
+  chart: 'c',
+};
+
+function getTargetData(target: QuoteTarget): string {
+  switch (target.source) {
+    case 'naver': return `m:${target.marketType}`;
+    case 'finnhub': return `f:${target.symbol}`;
+    case 'krx': return `k:${target.code}`;
+  }
+}
+
+function buildQuoteCallbackData(action: QuoteAction, target: QuoteTarget): string {
+  return `${CALLBACK_PREFIX}:${ACTION_CODES[action]}:${getTargetData(target)}`;
+}
+
+/**
+ * 시세 메시지용 인라인 키보드 (callback_data가 너무 길면 키보드 없이 전송)
+ */
+export function buildQuoteKeyboard(target: QuoteTarget): InlineKeyboardMarkup | undefined {
+  const refreshData = buildQuoteCallbackData('refresh', target);
+  const chartData = buildQuoteCallbackData('chart', target);
+  const encoder = new TextEncoder();
+
+  if (
+    encoder.encode(refreshData).byteLength > MAX_CALLBACK_DATA_BYTES ||
+    encoder.encode(chartData).byteLength > MAX_CALLBACK_DATA_BYTES
+  ) {
+    return undefined;
+  }
+
+  return {
+    inline_keyboard: [[
+      { text: '🔄 새로고침', callback_data: refreshData },
+      { text: '📈 차트', callback_data: chartData },
+    ]],
+  };
+}
+
+/**
+ * callback_data 파싱 (시세 버튼이 아니면 null)
+ */
+export function parseQuoteCallbackData(data?: string): QuoteCallback | null {
+  const match = data?.match(/^q:([rc]):([mfk]):(.+)$/);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, actionCode, sourceCode, value] = match;
+  const action: QuoteAction = actionCode === 'r' ? 'refresh' : 'chart';
+
+  if (sourceCode === 'f') {
+    return { action, target: { source: 'finnhub', symbol: value } };
+  }
+
+  if (sourceCode === 'k') {
+    return /^\d{6}$/.test(value) ? { action, target: { source: 'krx', code: value } } : null;
+  }
+
+  if (!Object.hasOwn(MARKET_NAMES, value)) {
+    return null;
+  }
+
+  return { action, target: { source: 'naver', marketType: value as MarketType } };
+}
+
+/**
+ * 차트 조회용 검색어 (getMarketChart 입력)
+ */
+export function getQuoteTargetQuery(target: QuoteTarget): string {
+  switch (target.source) {
+    case 'naver': return target.marketType;
+    case 'finnhub': return target.symbol;
+    case 'krx': return target.code;
+  }
+}
+
+/**
+ * 버튼 대상의 현재 시세 조회
+ */
+export async function fetchMarketQuote(target: QuoteTarget, finnhubApiKey?: string): Promise<MarketQuote | null> {
+  if (target.source === 'naver') {
+    const data = await getMarketData(target.marketType, finnhubApiKey);
+    if (!data) return null;
+
+    return {
+      name: data.name,
+      value: data.value,
+      change: data.change,
+      sourceUrl: data.provider === 'finnhub' ? 'https://finnhub.io' : 'https://finance.naver.com',
+    };
+  }
+
+  if (target.source === 'krx') {
+    const result = await getDomesticStockData(target.code);
+    if (result.status !== 'ok') {
+      if (result.status === 'error') {
+        console.error(`Quote refresh failed for ${target.code}:`, result.reason);
+      }
+      return null;
+    }
+
+    return {
+      name: result.data.name,
+      value: result.data.value,
+      change: result.data.change,
+      sourceUrl: result.data.sourceUrl,
+      stock: result.data,
+    };
+  }
+
+  if (!finnhubApiKey) return null;
+
+  const result = await getFinnhubMarketData(target.symbol, finnhubApiKey);
+  if (result.status !== 'ok') {
+    if (result.status === 'error') {
+      console.error(`Quote refresh failed for ${target.symbol}:`, result.reason);
+    }
+    return null;
+  }
+
+  return {
+    name: result.data.name,
+    value: result.data.value,
+    change: result.data.change,
+    sourceUrl: result.data.sourceUrl,
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * 채팅방/사용자별 요청 한도(rate limit) 모듈
+ *
+ * 토큰 버킷 방식으로 명령어마다 토큰 1개를 쓰고, 시간이 지나면 분당 refill 속도로 다시 채운다.
+ * `?` 검색 한 번에 Finnhub API를 20번 이상 호출할 수 있어 네이버 시세 명령어와 예산을 분리한다.
+ *
+ * 버킷 상태는 예산별 RateLimiter Durable Object 하나가 관리한다. 요청이 한 객체에서 차례로 처리되므로
+ * 동시에 들어온 명령어도 토큰을 정확히 소비하고, 명령어마다 KV 쓰기가 생기지 않는다.
+ * 키: <scope>:<id> (Durable Object 저장소), 가득 찬 버킷은 알람으로 주기적으로 정리한다.
+ */
+
+export type RateLimitBudget = 'naver' | 'finnhub';
+export type RateLimitScope = 'chat' | 'user';
+
+export interface RateLimitSubject {
+  chatId?: string;
+  userId?: string;
+}
+
+export type RateLimitResult =
+  | { status: 'ok' }
+  | { status: 'limited'; budget: RateLimitBudget; scope: RateLimitScope; retryAfterSeconds: number }
+  | { status: 'unavailable'; budget: RateLimitBudget; reason: string };
+
+interface TokenBucketConfig {
+  capacity: number;         // 최대 연속 요청 수
+  refillPerMinute: number;  // 분당 충전 토큰 수
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// 가득 찬 버킷 정리 주기
+const BUCKET_CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+// Durable Object 요청용 가상 URL (외부로 나가지 않음)
+const RATE_LIMITER_URL = 'https://rate-limiter.dailyfinance.internal/consume';
+
+// 예산별 토큰 버킷 설정 (Finnhub 무료 플랜은 분당 60회 호출 제한)
+export const RATE_LIMIT_BUDGETS: Record<RateLimitBudget, Record<RateLimitScope, TokenBucketConfig>> = {
+  naver: {
+    user: { capacity: 10, refillPerMinute: 10 },
+    chat: { capacity: 30, refillPerMinute: 30 },
+  },
+  finnhub: {
+    user: { capacity: 3, refillPerMinute: 2 },
+    chat: { capacity: 6, refillPerMinute: 4 },
+  },
+};
+
+const BUDGET_NAMES: Record<RateLimitBudget, string> = {
+  naver: '시세 조회',
+  finnhub: '해외 종목 검색',
+};
+
+function getBucketKey(scope: RateLimitScope, id: string): string {
+  return `${scope}:${id}`;
+}
+
+function refillBucket(state: TokenBucketState | null, config: TokenBucketConfig, now: number): TokenBucketState {
+  if (!state) {
+    return { tokens: config.capacity, updatedAt: now };
+  }
+
+  const elapsedMinutes = Math.max(0, now - state.updatedAt) / 60_000;
+  const tokens = Math.min(config.capacity, state.tokens + elapsedMinutes * config.refillPerMinute);
+  return { tokens, updatedAt: now };
+}
+
+function getBucketRefillMs(config: TokenBucketConfig): number {
+  // 버킷이 가득 찰 때까지 걸리는 시간이 지나면 기본값(가득 찬 버킷)과 같으므로 지워도 된다
+  return Math.ceil(config.capacity / config.refillPerMinute * 60_000);
+}
+
+function isRateLimitBudget(value: string | null): value is RateLimitBudget {
+  return value !== null && Object.hasOwn(RATE_LIMIT_BUDGETS, value);
+}
+
+/**
+ * 예산별 토큰 버킷 Durable Object (idFromName(budget))
+ *
+ * 저장소 읽기/쓰기 사이에 다른 요청이 끼어들지 않으므로 get → put이 원자적으로 처리된다.
+ */
+export class RateLimiter implements DurableObject {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const budget = url.searchParams.get('budget');
+
+    if (!isRateLimitBudget(budget)) {
+      return new Response('Unknown rate limit budget', { status: 400 });
+    }
+
+    const subject = await request.json() as RateLimitSubject;
+    const result = await this.consume(budget, subject, Date.now());
+
+    return Response.json(result);
+  }
+
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const buckets = await this.state.storage.list<TokenBucketState>();
+    // 버킷 키에는 예산이 없으므로 가장 느리게 차는 설정 기준으로 정리
+    const refillMs = Math.max(...Object.values(RATE_LIMIT_BUDGETS).flatMap(budget =>
+      Object.values(budget).map(getBucketRefillMs)));
+    const expiredKeys = [...buckets]
+      .filter(([, bucket]) => now - bucket.updatedAt >= refillMs)
+      .map(([key]) => key);
+
+    // delete()는 한 번에 최대 128개 키까지 지원
+    for (let i = 0; i < expiredKeys.length; i += 128) {
+      await this.state.storage.delete(expiredKeys.slice(i, i + 128));
+    }
+
+    if (buckets.size > expiredKeys.length) {
+      await this.state.storage.setAlarm(now + BUCKET_CLEANUP_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * 채팅방과 사용자 버킷 중 하나라도 비어 있으면 limited (한도 초과 시 어떤 버킷의 토큰도 소비하지 않음)
+   */
+  private async consume(budget: RateLimitBudget, subject: RateLimitSubject, now: number): Promise<RateLimitResult> {
+    const targets = ([['user', subject.userId], ['chat', subject.chatId]] as const)
+      .filter((target): target is readonly [RateLimitScope, string] => !!target[1])
+      .map(([scope, id]) => ({ scope, key: getBucketKey(scope, id), config: RATE_LIMIT_BUDGETS[budget][scope] }));
+
+    const stored = await this.state.storage.get<TokenBucketState>(targets.map(target => target.key));
+    const buckets = targets.map(target => ({
+      ...target,
+      state: refillBucket(stored.get(target.key) || null, target.config, now),
+    }));
+
+    const limited = buckets
+      .filter(bucket => bucket.state.tokens < 1)
+      .map(bucket => ({
+        scope: bucket.scope,
+        retryAfterSeconds: Math.ceil((1 - bucket.state.tokens) / bucket.config.refillPerMinute * 60),
+      }))
+      .sort((a, b) => b.retryAfterSeconds - a.retryAfterSeconds)[0];
+
+    if (limited) {
+      return { status: 'limited', budget, ...limited };
+    }
+
+    await this.state.storage.put(Object.fromEntries(buckets.map(bucket => [
+      bucket.key,
+      { tokens: bucket.state.tokens - 1, updatedAt: now },
+    ])));
+
+    if (await this.state.storage.getAlarm() === null) {
+      await this.state.storage.setAlarm(now + BUCKET_CLEANUP_INTERVAL_MS);
+    }
+
+    return { status: 'ok' };
+  }
+}
+
+/**
+ * 요청 한도 확인 후 토큰 소비
+ *
+ * RATE_LIMITER 바인딩이 없으면 제한하지 않는다. Durable Object 호출이 실패하면 요청을 허용하지 않고
+ * unavailable을 돌려준다 (외부 API 예산을 지키기 위해).
+ */
+export async function consumeRateLimit(
+  limiter: DurableObjectNamespace | undefined,
+  budget: RateLimitBudget,
+  subject: RateLimitSubject
+): Promise<RateLimitResult> {
+  if (!limiter) {
+    return { status: 'ok' };
+  }
+
+  try {
+    const stub = limiter.get(limiter.idFromName(budget));
+    const response = await stub.fetch(`${RATE_LIMITER_URL}?budget=${budget}`, {
+      method: 'POST',
+      body: JSON.stringify(subject),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Rate limiter responded ${response.status}`);
+    }
+
+    return await response.json() as RateLimitResult;
+  } catch (error) {
+    console.error('Rate limit check failed:', error);
+    return { status: 'unavailable', budget, reason: String(error) };
+  }
+}
+
+/**
+ * 한도 초과·확인 실패 안내 메시지 (HTML 이스케이프 전 일반 텍스트)
+ */
+export function formatRateLimitMessage(result: Exclude<RateLimitResult, { status: 'ok' }>): string {
+  if (result.status === 'unavailable') {
+    return '⚠️ 요청 한도를 확인하지 못했습니다. 잠시 후 다시 시도해주세요.';
+  }
+
+  const who = result.scope === 'chat' ? '이 채팅방의 ' : '';
+  return [
+    `⏳ 잠시만요! ${who}${BUDGET_NAMES[result.budget]} 요청이 많아 잠시 쉬어갑니다.`,
+    `${result.retryAfterSeconds}초 후에 다시 시도해주세요.`,
+  ].join('\n');
+}
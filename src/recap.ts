@@ -0,0 +1,196 @@
+/**
+ * 주간·월간 리캡 모듈
+ *
+ * - 주간: 금요일 저녁, 이번 주(월~금) 시세 정리
+ * - 월간: 말일 저녁, 이번 달 시세 정리
+ *
+ * 시장별로 기간 등락(직전 기간 마지막 종가 → 기간 마지막 종가), 종가 기준 최고/최저,
+ * 하루 최대 상승/하락일을 계산한다. 나스닥은 미국 현지 거래일 기준이라 금요일 저녁(KST)
+ * 발송 시에는 목요일 장까지만 포함된다.
+ */
+
+import { DailyClosePrice, MARKET_NAMES, MarketType } from './scraper';
+import { getMarketDailyCloses } from './providers';
+import { getMarketPerformanceChart } from './chart';
+import { ChartImage, ChartRenderOptions } from './renderer';
+import { getDateInTimeZone } from './calendar';
+
+export type RecapPeriod = 'weekly' | 'monthly';
+
+export interface RecapPricePoint {
+  date: string;     // YYYY-MM-DD
+  close: number;
+}
+
+export interface RecapDailyMove {
+  date: string;     // YYYY-MM-DD
+  changePercent: number;
+}
+
+export interface MarketRecapItem {
+  marketType: MarketType;
+  name: string;
+  base: RecapPricePoint;         // 기간 시작 전 마지막 종가 (없으면 기간 첫 종가)
+  last: RecapPricePoint;
+  change: number;
+  changePercent: number;
+  high: RecapPricePoint;
+  low: RecapPricePoint;
+  bestDay: RecapDailyMove | null;
+  worstDay: RecapDailyMove | null;
+  closes: RecapPricePoint[];     // 기간 내 종가 (오래된 순)
+}
+
+export interface MarketRecap {
+  period: RecapPeriod;
+  startDate: string;
+  endDate: string;
+  items: MarketRecapItem[];
+  missingMarkets: MarketType[];  // 시세 조회에 실패했거나 기간 내 종가가 없는 시장
+  chart: ChartImage | null;
+}
+
+export interface MarketRecapOptions {
+  finnhubApiKey?: string;
+  includeCommodities?: boolean;
+  chartOptions?: ChartRenderOptions;
+}
+
+export const RECAP_PERIOD_NAMES: Record<RecapPeriod, string> = {
+  weekly: '주간',
+  monthly: '월간',
+};
+
+// 일일 브리핑 항목 + 나스닥 (원자재·금리는 includeCommodities일 때만)
+const RECAP_MARKETS: MarketType[] = ['kospi', 'kosdaq', 'nasdaq', 'usd', 'eur', 'jpy', 'gbp', 'chf', 'cny'];
+const RECAP_COMMODITY_MARKETS: MarketType[] = ['gold', 'wti', 'us10y', 'kr3y'];
+// 누적 등락률 비교 차트에 그릴 시장
+const RECAP_CHART_MARKETS: MarketType[] = ['kospi', 'kosdaq', 'nasdaq', 'usd'];
+
+// 기간 시작 전 종가까지 포함하도록 넉넉히 조회할 거래일 수
+const RECAP_HISTORY_DAYS: Record<RecapPeriod, number> = {
+  weekly: 10,
+  monthly: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 리캡 기간 (KST 기준, 주간은 그 주 월요일부터, 월간은 그 달 1일부터 발송일까지)
+ */
+export function getRecapRange(period: RecapPeriod, timestamp: number): { startDate: string; endDate: string } {
+  const endDate = getDateInTimeZone(timestamp, 'Asia/Seoul');
+
+  if (period === 'monthly') {
+    return { startDate: `${endDate.slice(0, 8)}01`, endDate };
+  }
+
+  const end = new Date(`${endDate}T00:00:00Z`);
+  const daysSinceMonday = (end.getUTCDay() + 6) % 7;
+  return { startDate: toDateString(new Date(end.getTime() - daysSinceMonday * DAY_MS)), endDate };
+}
+
+/**
+ * 차트용 MM/DD 날짜를 YYYY-MM-DD로 복원 (기준일보다 뒤면 전년도)
+ */
+function resolveCloseDate(label: string, referenceDate: string): string | null {
+  const match = label.match(/^(\d{2})\/(\d{2})$/);
+  if (!match) return null;
+
+  const year = Number(referenceDate.slice(0, 4));
+  const date = `${year}-${match[1]}-${match[2]}`;
+  return date > referenceDate ? `${year - 1}-${match[1]}-${match[2]}` : date;
+}
+
+/**
+ * 시장별 리캡 통계 계산 (기간 내 종가가 없으면 null)
+ */
+export function buildMarketRecapItem(
+  marketType: MarketType,
+  prices: DailyClosePrice[],
+  startDate: string,
+  endDate: string
+): MarketRecapItem | null {
+  const points = prices
+    .map(price => ({ date: resolveCloseDate(price.date, endDate), close: price.closePrice }))
+    .filter((point): point is RecapPricePoint => point.date !== null && Number.isFinite(point.close))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const closes = points.filter(point => point.date >= startDate && point.date <= endDate);
+
+  if (closes.length === 0) {
+    return null;
+  }
+
+  const base = points.filter(point => point.date < startDate).pop() || closes[0];
+  const last = closes[closes.length - 1];
+
+  const moves: RecapDailyMove[] = closes.flatMap((point, index) => {
+    const previous = index > 0 ? closes[index - 1] : base !== point ? base : null;
+    return previous && previous.close !== 0
+      ? [{ date: point.date, changePercent: (point.close / previous.close - 1) * 100 }]
+      : [];
+  });
+
+  return {
+    marketType,
+    name: MARKET_NAMES[marketType],
+    base,
+    last,
+    change: last.close - base.close,
+    changePercent: base.close !== 0 ? (last.close / base.close - 1) * 100 : 0,
+    high: closes.reduce((high, point) => (point.close > high.close ? point : high)),
+    low: closes.reduce((low, point) => (point.close < low.close ? point : low)),
+    bestDay: moves.length > 0 ? moves.reduce((best, move) => (move.changePercent > best.changePercent ? move : best)) : null,
+    worstDay: moves.length > 0 ? moves.reduce((worst, move) => (move.changePercent < worst.changePercent ? move : worst)) : null,
+    closes,
+  };
+}
+
+/**
+ * 주간·월간 리캡 데이터와 누적 등락률 차트 생성
+ */
+export async function getMarketRecap(
+  period: RecapPeriod,
+  timestamp: number,
+  options: MarketRecapOptions = {}
+): Promise<MarketRecap> {
+  const { startDate, endDate } = getRecapRange(period, timestamp);
+  const markets = options.includeCommodities ? [...RECAP_MARKETS, ...RECAP_COMMODITY_MARKETS] : RECAP_MARKETS;
+
+  const results = await Promise.all(markets.map(async marketType => {
+    try {
+      const history = await getMarketDailyCloses(marketType, RECAP_HISTORY_DAYS[period], options.finnhubApiKey);
+      return buildMarketRecapItem(marketType, history.prices, startDate, endDate);
+    } catch (error) {
+      console.error(`${period} recap history failed for ${marketType}:`, error);
+      return null;
+    }
+  }));
+
+  const items = results.filter((item): item is MarketRecapItem => item !== null);
+  const missingMarkets = markets.filter((_, index) => results[index] === null);
+
+  const chartMarkets = items
+    .filter(item => RECAP_CHART_MARKETS.includes(item.marketType))
+    .map(item => ({
+      marketType: item.marketType,
+      data: [item.base, ...item.closes.filter(point => point !== item.base)].map(point => ({
+        date: point.date,
+        value: Number(((point.close / item.base.close - 1) * 100).toFixed(2)),
+      })),
+    }));
+
+  const chart = await getMarketPerformanceChart(
+    chartMarkets,
+    `${RECAP_PERIOD_NAMES[period]} 누적 등락률`,
+    `${startDate.slice(5).replace('-', '/')}~${endDate.slice(5).replace('-', '/')}`,
+    options.chartOptions
+  );
+
+  return { period, startDate, endDate, items, missingMarkets, chart };
+}
@@ -0,0 +1,391 @@
+/**
+ * 워커 내부 차트 렌더링 모듈
+ *
+ * 차트 데이터를 SVG로 그린 뒤 resvg(WASM)로 PNG 래스터화한다.
+ * QuickChart.io를 거치지 않으므로 외부 서비스 지연이나 URL 길이 제한의 영향을 받지 않는다.
+ */
+
+import { initWasm, Resvg } from '@resvg/resvg-wasm';
+import resvgWasm from '@resvg/resvg-wasm/index_bg.wasm';
+import { fetchWithFixtures } from './fixtures';
+
+// 한글 축/제목 렌더링용 기본 폰트 (CHART_FONT_URL / CHART_FONT_FAMILY로 변경 가능)
+const DEFAULT_FONT_URL = 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/nanumgothic/NanumGothic-Regular.ttf';
+const DEFAULT_FONT_FAMILY = 'NanumGothic';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 400;
+const CANDLE_CHART_WIDTH = 700;
+const CANDLE_CHART_HEIGHT = 450;
+const MARGIN = { top: 56, right: 24, bottom: 40, left: 76 };
+const MAX_X_LABELS = 8;
+const Y_TICK_COUNT = 5;
+
+export type ChartRenderer = 'worker' | 'quickchart';
+
+export interface ChartDataPoint {
+  date: string;
+  value: number;
+}
+
+export interface CandleDataPoint {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface ChartImage {
+  url: string;               // QuickChart URL (워커 렌더링 실패 시 대체 경로)
+  png: Uint8Array | null;    // 워커에서 렌더링한 PNG
+}
+
+export interface ChartRenderOptions {
+  renderer?: ChartRenderer;
+  fontUrl?: string;
+  fontFamily?: string;
+}
+
+export interface LineChartStyle {
+  title: string;
+  periodLabel: string;
+  color: string;
+}
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  data: ChartDataPoint[];
+}
+
+export interface MultiLineChartStyle {
+  title: string;
+  periodLabel: string;
+  valueSuffix?: string;      // y축 값 뒤에 붙일 단위 (예: %)
+}
+
+export interface CandleChartStyle {
+  title: string;
+  periodLabel: string;
+  upColor: string;
+  downColor: string;
+  unchangedColor: string;
+}
+
+let wasmReady: Promise<void> | null = null;
+const fontCache = new Map<string, Promise<Uint8Array | null>>();
+
+export function parseChartRenderer(value?: string): ChartRenderer {
+  return value?.trim().toLowerCase() === 'quickchart' ? 'quickchart' : 'worker';
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatAxisValue(value: number): string {
+  const abs = Math.abs(value);
+  const maxFractionDigits = abs >= 1000 ? 0 : abs >= 10 ? 2 : 4;
+  return value.toLocaleString('en-US', { maximumFractionDigits: maxFractionDigits });
+}
+
+function formatVolume(value: number): string {
+  if (value >= 1_000_000_000) return `${(value / 1_000_000_000).toFixed(1)}B`;
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}K`;
+  return String(Math.round(value));
+}
+
+/**
+ * 최소/최대값에 여유를 둔 y축 범위 (QuickChart 대체 차트도 같은 범위를 사용)
+ * 정수로 반올림하지 않아 값이 작은 금리·환율 차트도 평평하게 눌리지 않는다.
+ */
+export function getValueRange(values: number[]): { min: number; max: number } {
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+  const padding = Math.max((maxValue - minValue) * 0.15, Math.abs(maxValue) * 0.01, 1e-6);
+
+  return { min: minValue - padding, max: maxValue + padding };
+}
+
+function getXLabelIndexes(count: number): number[] {
+  if (count <= MAX_X_LABELS) {
+    return Array.from({ length: count }, (_, index) => index);
+  }
+
+  const step = (count - 1) / (MAX_X_LABELS - 1);
+  return Array.from({ length: MAX_X_LABELS }, (_, index) => Math.round(index * step));
+}
+
+function renderFrame(
+  width: number,
+  height: number,
+  title: string,
+  range: { min: number; max: number },
+  plotBottom: number,
+  valueSuffix = ''
+): { parts: string[]; toY: (value: number) => number } {
+  const plotTop = MARGIN.top;
+  const plotLeft = MARGIN.left;
+  const plotRight = width - MARGIN.right;
+  const toY = (value: number) =>
+    plotBottom - ((value - range.min) / (range.max - range.min)) * (plotBottom - plotTop);
+
+  const parts = [
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<text x="${width / 2}" y="32" text-anchor="middle" font-size="18" font-weight="bold" fill="#2c3e50">${escapeXml(title)}</text>`,
+  ];
+
+  for (let i = 0; i <= Y_TICK_COUNT; i += 1) {
+    const value = range.min + ((range.max - range.min) * i) / Y_TICK_COUNT;
+    const y = toY(value);
+
+    parts.push(
+      `<line x1="${plotLeft}" y1="${y.toFixed(1)}" x2="${plotRight}" y2="${y.toFixed(1)}" stroke="#ecf0f1" stroke-width="1"/>`,
+      `<text x="${plotLeft - 8}" y="${(y + 4).toFixed(1)}" text-anchor="end" font-size="12" fill="#7f8c8d">${escapeXml(`${formatAxisValue(value)}${valueSuffix}`)}</text>`,
+    );
+  }
+
+  return { parts, toY };
+}
+
+function renderXLabels(dates: string[], toX: (index: number) => number, y: number): string[] {
+  return getXLabelIndexes(dates.length).map(index =>
+    `<text x="${toX(index).toFixed(1)}" y="${y}" text-anchor="middle" font-size="12" fill="#7f8c8d">${escapeXml(dates[index])}</text>`
+  );
+}
+
+function wrapSvg(width: number, height: number, parts: string[]): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...parts,
+    '</svg>',
+  ].join('');
+}
+
+/**
+ * 라인 차트 SVG 생성
+ */
+export function renderLineChartSvg(data: ChartDataPoint[], style: LineChartStyle): string {
+  const width = CHART_WIDTH;
+  const height = CHART_HEIGHT;
+  const plotLeft = MARGIN.left;
+  const plotRight = width - MARGIN.right;
+  const plotBottom = height - MARGIN.bottom;
+  const range = getValueRange(data.map(point => point.value));
+  const { parts, toY } = renderFrame(width, height, `${style.title} - ${style.periodLabel}`, range, plotBottom);
+
+  const toX = (index: number) =>
+    data.length === 1 ? (plotLeft + plotRight) / 2 : plotLeft + (index / (data.length - 1)) * (plotRight - plotLeft);
+
+  const points = data.map((point, index) => `${toX(index).toFixed(1)},${toY(point.value).toFixed(1)}`);
+  const areaPath = [
+    `M${toX(0).toFixed(1)},${plotBottom}`,
+    ...points.map(point => `L${point}`),
+    `L${toX(data.length - 1).toFixed(1)},${plotBottom}`,
+    'Z',
+  ].join(' ');
+
+  parts.push(
+    `<path d="${areaPath}" fill="${style.color}" fill-opacity="0.19"/>`,
+    `<polyline points="${points.join(' ')}" fill="none" stroke="${style.color}" stroke-width="${data.length > 90 ? 2 : 3}" stroke-linejoin="round"/>`,
+  );
+
+  if (data.length <= 60) {
+    for (let i = 0; i < data.length; i += 1) {
+      parts.push(`<circle cx="${toX(i).toFixed(1)}" cy="${toY(data[i].value).toFixed(1)}" r="4" fill="${style.color}"/>`);
+    }
+  }
+
+  parts.push(...renderXLabels(data.map(point => point.date), toX, height - 16));
+
+  return wrapSvg(width, height, parts);
+}
+
+/**
+ * 여러 시리즈 라인 차트 SVG 생성 (x축은 모든 시리즈 날짜의 합집합, 범례는 제목 아래)
+ *
+ * 날짜는 정렬 가능한 YYYY-MM-DD 형식으로 받아 축에는 MM/DD로 표시한다.
+ */
+export function renderMultiLineChartSvg(series: ChartSeries[], style: MultiLineChartStyle): string {
+  const width = CHART_WIDTH;
+  const height = CHART_HEIGHT;
+  const plotLeft = MARGIN.left;
+  const plotRight = width - MARGIN.right;
+  const plotBottom = height - MARGIN.bottom;
+  const dates = [...new Set(series.flatMap(item => item.data.map(point => point.date)))].sort();
+  const range = getValueRange(series.flatMap(item => item.data.map(point => point.value)));
+  const { parts, toY } = renderFrame(
+    width,
+    height,
+    `${style.title} - ${style.periodLabel}`,
+    range,
+    plotBottom,
+    style.valueSuffix
+  );
+
+  const toX = (index: number) =>
+    dates.length === 1 ? (plotLeft + plotRight) / 2 : plotLeft + (index / (dates.length - 1)) * (plotRight - plotLeft);
+  const legendStep = (plotRight - plotLeft) / Math.max(series.length, 1);
+
+  series.forEach((item, seriesIndex) => {
+    const points = item.data.map(point => `${toX(dates.indexOf(point.date)).toFixed(1)},${toY(point.value).toFixed(1)}`);
+    const legendX = plotLeft + seriesIndex * legendStep;
+
+    parts.push(
+      `<polyline points="${points.join(' ')}" fill="none" stroke="${item.color}" stroke-width="2.5" stroke-linejoin="round"/>`,
+      ...points.map(point => {
+        const [cx, cy] = point.split(',');
+        return `<circle cx="${cx}" cy="${cy}" r="3" fill="${item.color}"/>`;
+      }),
+      `<rect x="${legendX.toFixed(1)}" y="42" width="12" height="4" fill="${item.color}"/>`,
+      `<text x="${(legendX + 16).toFixed(1)}" y="48" font-size="11" fill="#2c3e50">${escapeXml(item.label)}</text>`,
+    );
+  });
+
+  parts.push(...renderXLabels(dates.map(date => date.slice(5).replace('-', '/')), toX, height - 16));
+
+  return wrapSvg(width, height, parts);
+}
+
+/**
+ * 캔들스틱 + 거래량 차트 SVG 생성 (거래량은 하단 1/4 영역)
+ */
+export function renderCandlestickChartSvg(candles: CandleDataPoint[], style: CandleChartStyle): string {
+  const width = CANDLE_CHART_WIDTH;
+  const height = CANDLE_CHART_HEIGHT;
+  const plotLeft = MARGIN.left;
+  const plotRight = width - MARGIN.right;
+  const volumeBottom = height - MARGIN.bottom;
+  const volumeTop = volumeBottom - (volumeBottom - MARGIN.top) / 4;
+  const priceBottom = volumeTop - 8;
+  const range = getValueRange([...candles.map(candle => candle.low), ...candles.map(candle => candle.high)]);
+  const { parts, toY } = renderFrame(width, height, `${style.title} - ${style.periodLabel}`, range, priceBottom);
+
+  const slotWidth = (plotRight - plotLeft) / candles.length;
+  const bodyWidth = Math.max(slotWidth * 0.6, 1);
+  const toX = (index: number) => plotLeft + slotWidth * (index + 0.5);
+  const maxVolume = Math.max(...candles.map(candle => candle.volume), 1);
+
+  parts.push(
+    `<line x1="${plotLeft}" y1="${volumeTop}" x2="${plotRight}" y2="${volumeTop}" stroke="#bdc3c7" stroke-width="1"/>`,
+    `<text x="${plotLeft - 8}" y="${volumeTop + 12}" text-anchor="end" font-size="11" fill="#7f8c8d">${escapeXml(formatVolume(maxVolume))}</text>`,
+  );
+
+  candles.forEach((candle, index) => {
+    const color = candle.close > candle.open
+      ? style.upColor
+      : candle.close < candle.open
+        ? style.downColor
+        : style.unchangedColor;
+    const x = toX(index);
+    const bodyTop = toY(Math.max(candle.open, candle.close));
+    const bodyHeight = Math.max(Math.abs(toY(candle.open) - toY(candle.close)), 1);
+    const volumeHeight = (candle.volume / maxVolume) * (volumeBottom - volumeTop);
+
+    parts.push(
+      `<line x1="${x.toFixed(1)}" y1="${toY(candle.high).toFixed(1)}" x2="${x.toFixed(1)}" y2="${toY(candle.low).toFixed(1)}" stroke="${color}" stroke-width="1"/>`,
+      `<rect x="${(x - bodyWidth / 2).toFixed(1)}" y="${bodyTop.toFixed(1)}" width="${bodyWidth.toFixed(1)}" height="${bodyHeight.toFixed(1)}" fill="${color}"/>`,
+      `<rect x="${(x - bodyWidth / 2).toFixed(1)}" y="${(volumeBottom - volumeHeight).toFixed(1)}" width="${bodyWidth.toFixed(1)}" height="${volumeHeight.toFixed(1)}" fill="${color}" fill-opacity="0.5"/>`,
+    );
+  });
+
+  parts.push(...renderXLabels(candles.map(candle => candle.date), toX, height - 16));
+
+  return wrapSvg(width, height, parts);
+}
+
+async function ensureWasm(): Promise<void> {
+  if (!wasmReady) {
+    wasmReady = initWasm(resvgWasm).catch(error => {
+      wasmReady = null;
+      throw error;
+    });
+  }
+
+  return wasmReady;
+}
+
+async function loadFont(fontUrl: string): Promise<Uint8Array | null> {
+  let cached = fontCache.get(fontUrl);
+
+  if (!cached) {
+    cached = (async () => {
+      try {
+        const response = await fetchWithFixtures(fontUrl, { cf: { cacheTtl: 86400, cacheEverything: true } });
+
+        if (!response.ok) {
+          console.error(`Chart font fetch failed: ${response.status}`);
+          fontCache.delete(fontUrl);
+          return null;
+        }
+
+        return new Uint8Array(await response.arrayBuffer());
+      } catch (error) {
+        console.error('Chart font fetch failed:', error);
+        fontCache.delete(fontUrl);
+        return null;
+      }
+    })();
+
+    fontCache.set(fontUrl, cached);
+  }
+
+  return cached;
+}
+
+/**
+ * SVG를 PNG로 래스터화 (실패 시 null, 폰트를 못 불러오면 텍스트 없이 렌더링)
+ */
+export async function rasterizeSvg(svg: string, options: ChartRenderOptions = {}): Promise<Uint8Array | null> {
+  try {
+    const [, font] = await Promise.all([
+      ensureWasm(),
+      loadFont(options.fontUrl || DEFAULT_FONT_URL),
+    ]);
+
+    const fontFamily = options.fontFamily || DEFAULT_FONT_FAMILY;
+    const resvg = new Resvg(svg, {
+      background: '#ffffff',
+      font: {
+        fontBuffers: font ? [font] : [],
+        defaultFontFamily: fontFamily,
+        sansSerifFamily: fontFamily,
+      },
+    });
+
+    try {
+      const image = resvg.render();
+      const png = image.asPng();
+      image.free();
+      return png;
+    } finally {
+      resvg.free();
+    }
+  } catch (error) {
+    console.error('Chart rasterization failed:', error);
+    return null;
+  }
+}
+
+/**
+ * QuickChart URL과 워커 렌더링 PNG를 묶은 차트 이미지 생성
+ */
+export async function buildChartImage(
+  quickChartUrl: string,
+  renderSvg: () => string,
+  options: ChartRenderOptions = {}
+): Promise<ChartImage> {
+  if (options.renderer === 'quickchart') {
+    return { url: quickChartUrl, png: null };
+  }
+
+  const png = await rasterizeSvg(renderSvg(), options);
+  return { url: quickChartUrl, png };
+}
@@ -2,20 +2,87 @@
  * 네이버 금융 + Finnhub API에서 시세 정보를 가져오는 모듈
  */
 
+import { fetchWithFixtures } from './fixtures';
+import { CacheSource, withCache } from './cache';
+
 // API URL 상수
 const API_URLS = {
   KOSPI: 'https://polling.finance.naver.com/api/realtime/domestic/index/KOSPI',
   KOSDAQ: 'https://polling.finance.naver.com/api/realtime/domestic/index/KOSDAQ',
   NASDAQ: 'https://polling.finance.naver.com/api/realtime/worldstock/index/.IXIC',
-  NASDAQ_STATUS: 'https://stock.naver.com/api/polling/worldstock/index?reutersCodes=.IXIC',
-  NASDAQ_RECENT_PRICES: 'https://stock.naver.com/api/securityService/index/.IXIC/price?page=1&pageSize=30',
+  WORLD_INDEX_STATUS: 'https://stock.naver.com/api/polling/worldstock/index',
+  WORLD_INDEX_PRICES: 'https://stock.naver.com/api/securityService/index',
   EXCHANGE: 'https://m.stock.naver.com/front-api/marketIndex/exchange/new',
+  DOMESTIC_INDEX_CHART: 'https://api.stock.naver.com/chart/domestic/index',
+  DOMESTIC_STOCK: 'https://polling.finance.naver.com/api/realtime/domestic/stock',
+  DOMESTIC_STOCK_INTEGRATION: 'https://m.stock.naver.com/api/stock',
+  DOMESTIC_STOCK_CHART: 'https://api.stock.naver.com/chart/domestic/item',
+  STOCK_AUTOCOMPLETE: 'https://ac.stock.naver.com/ac',
+  EXCHANGE_PRICES: 'https://m.stock.naver.com/front-api/marketIndex/prices',
+  MARKET_INDEX_PRODUCT: 'https://m.stock.naver.com/front-api/marketIndex/productDetail',
+  UPBIT_TICKER: 'https://api.upbit.com/v1/ticker',
 } as const;
 
-export const NASDAQ_SOURCE_URL = 'https://stock.naver.com/worldstock/index/.IXIC/price';
+const WORLD_INDEX_SOURCE_URL = 'https://stock.naver.com/worldstock/index';
 
 const FINNHUB_API_BASE = 'https://finnhub.io/api/v1';
 
+const WORLD_INDEX_PRICE_PAGE_SIZE = 30;
+
+// 국내 종목: 6자리 종목코드 또는 한글 종목명
+const DOMESTIC_STOCK_CODE_PATTERN = /^\d{6}$/;
+const HANGUL_PATTERN = /[가-힣]/;
+
+// 환율 시세 페이지 크기와 최대 조회 수 (60개 × 7페이지로 최장 차트 기간 365거래일을 덮음)
+const EXCHANGE_PRICE_PAGE_SIZE = 60;
+const MAX_EXCHANGE_PAGES = 7;
+
+const DOMESTIC_INDEX_CODES: Partial<Record<MarketType, string>> = {
+  kospi: 'KOSPI',
+  kosdaq: 'KOSDAQ',
+};
+
+const EXCHANGE_REUTERS_CODES: Partial<Record<MarketType, string>> = {
+  usd: 'FX_USDKRW',
+  eur: 'FX_EURKRW',
+  jpy: 'FX_JPYKRW',
+  gbp: 'FX_GBPKRW',
+  chf: 'FX_CHFKRW',
+  cny: 'FX_CNYKRW',
+};
+
+// 미국 장마감 현황 지수 (네이버 해외 지수 로이터 코드)
+export type UsIndexCode = '.DJI' | '.INX' | '.IXIC' | '.SOX';
+
+export const US_CLOSE_INDEX_CODES: UsIndexCode[] = ['.DJI', '.INX', '.IXIC', '.SOX'];
+
+export const US_INDEX_NAMES: Record<UsIndexCode, string> = {
+  '.DJI': '다우존스',
+  '.INX': 'S&P 500',
+  '.IXIC': '나스닥 종합',
+  '.SOX': '필라델피아 반도체',
+};
+
+// 미국 증시 모닝 브리핑 지수 (네이버 해외 지수 로이터 코드)
+const US_OVERNIGHT_INDEX_CODES = {
+  dji: '.DJI',
+  inx: '.INX',
+  ixic: '.IXIC',
+  sox: '.SOX',
+  vix: '.VIX',
+} as const;
+
+// 달러/원 역외 NDF 1개월물
+const USD_KRW_NDF_PRODUCT = { category: 'exchange', reutersCode: 'KRW1MNDF=' };
+
+// 원자재·금리 (네이버 marketIndex 카테고리와 로이터 코드)
+const MARKET_INDEX_PRODUCTS: Partial<Record<MarketType, { category: string; reutersCode: string }>> = {
+  gold: { category: 'metals', reutersCode: 'GCcv1' },
+  wti: { category: 'energy', reutersCode: 'CLcv1' },
+  us10y: { category: 'bond', reutersCode: 'US10YT=RR' },
+  kr3y: { category: 'bond', reutersCode: 'KR3YT=RR' },
+};
+
 const DEFAULT_JSON_HEADERS = {
   'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
   'Accept': 'application/json',
@@ -31,7 +98,27 @@ export type MarketType =
   | 'eur'
   | 'gbp'
   | 'chf'
-  | 'cny';
+  | 'cny'
+  | 'gold'
+  | 'wti'
+  | 'us10y'
+  | 'kr3y';
+
+export const MARKET_NAMES: Record<MarketType, string> = {
+  kospi: '코스피',
+  kosdaq: '코스닥',
+  nasdaq: '나스닥',
+  usd: '달러',
+  jpy: '엔화',
+  eur: '유로',
+  gbp: '파운드',
+  chf: '스위스프랑',
+  cny: '위안',
+  gold: '금',
+  wti: 'WTI 유가',
+  us10y: '미국채 10년 금리',
+  kr3y: '국고채 3년 금리',
+};
 
 // 변동 방향
 export type ChangeDirection = 'up' | 'down' | 'unchanged';
@@ -43,14 +130,19 @@ export interface ChangeInfo {
   percent: string;    // 변동률 (예: "0.52%")
 }
 
+// 시세를 제공한 데이터 소스
+export type ProviderName = 'naver' | 'finnhub';
+
 export interface MarketData {
   type: MarketType;
   name: string;
   value: string;
   change?: ChangeInfo;
+  provider?: ProviderName;
 }
 
-export interface NasdaqCloseStatus {
+export interface UsIndexCloseStatus {
+  reutersCode: UsIndexCode;
   name: string;
   value: string;
   change?: ChangeInfo;
@@ -64,15 +156,29 @@ export interface NasdaqCloseStatus {
   sourceUrl: string;
 }
 
-export interface NasdaqDailyPrice {
+export interface DailyClosePrice {
   date: string;
   closePrice: number;
 }
 
+export interface IndexDailyCandle extends DailyClosePrice {
+  timestamp: number;    // 거래일 00:00 UTC (ms)
+  openPrice: number;
+  highPrice: number;
+  lowPrice: number;
+  volume: number;
+}
+
 // 일일 시장 요약 데이터
 export interface MarketSummaryItem {
   value: string | null;
   change?: ChangeInfo;
+  provider?: ProviderName;
+}
+
+export interface WatchlistSummaryItem extends MarketSummaryItem {
+  symbol: string;
+  name: string;
 }
 
 export interface DailyMarketSummary {
@@ -84,6 +190,41 @@ export interface DailyMarketSummary {
   gbp: MarketSummaryItem;
   chf: MarketSummaryItem;
   cny: MarketSummaryItem;
+  // 원자재·금리 (BRIEFING_COMMODITIES 설정 시에만 포함)
+  gold?: MarketSummaryItem;
+  wti?: MarketSummaryItem;
+  us10y?: MarketSummaryItem;
+  kr3y?: MarketSummaryItem;
+  watchlist?: WatchlistSummaryItem[];
+  kimchiPremium?: KimchiPremium[];
+}
+
+export interface UsOvernightSummary {
+  dji: MarketSummaryItem;        // 다우존스
+  inx: MarketSummaryItem;        // S&P 500
+  ixic: MarketSummaryItem;       // 나스닥 종합
+  sox: MarketSummaryItem;        // 필라델피아 반도체
+  vix: MarketSummaryItem;        // VIX 변동성 지수
+  us10y: MarketSummaryItem;      // 미국채 10년 금리
+  usdKrwNdf: MarketSummaryItem;  // 달러/원 NDF 1개월물
+  localTradedAt?: string;        // 미국 지수 기준 시각 (현지 시간)
+}
+
+export interface ExchangeRate {
+  code: string;         // 통화 코드 (예: "USD")
+  krwPerUnit: number;   // 통화 1단위당 원화
+  quotedRate: string;   // 네이버 고시 환율 원문 (예: "1,469.10")
+  quoteUnit: number;    // 고시 단위 (JPY는 100)
+}
+
+export interface KimchiPremium {
+  symbol: string;           // 코인 심볼 (예: "BTC")
+  krwPrice: number;         // 업비트 원화 가격
+  usdPrice: number;         // 해외 거래소 USD(USDT) 가격
+  usdSymbol: string;        // USD 가격을 가져온 Finnhub 심볼 (예: "BINANCE:BTCUSDT")
+  usdKrwRate: number;       // 적용 USD/KRW 환율 (네이버)
+  globalKrwPrice: number;   // 해외 가격의 원화 환산
+  premiumPercent: number;   // (업비트 / 해외 원화 환산 - 1) * 100
 }
 
 export interface GlobalMarketData {
@@ -95,11 +236,32 @@ export interface GlobalMarketData {
   assetType: 'stock' | 'index' | 'crypto' | 'other';
 }
 
+export interface DomesticStockData {
+  code: string;             // 6자리 종목코드 (예: "005930")
+  name: string;
+  market: string;           // 코스피, 코스닥, 코넥스
+  value: string;
+  change?: ChangeInfo;
+  volume?: string;          // 누적 거래량
+  marketCap?: string;       // 시가총액 (예: "423조 1,234억")
+  sourceUrl: string;
+}
+
+export type DomesticStockLookupResult =
+  | { status: 'ok'; data: DomesticStockData }
+  | { status: 'not_found'; query: string }
+  | { status: 'error'; query: string; reason: string };
+
 export type GlobalLookupResult =
   | { status: 'ok'; data: GlobalMarketData }
   | { status: 'not_found'; query: string }
   | { status: 'error'; query: string; reason: string };
 
+export type FinnhubDailyClosesResult =
+  | { status: 'ok'; symbol: string; name: string; prices: DailyClosePrice[] }
+  | { status: 'not_found'; query: string }
+  | { status: 'error'; query: string; reason: string };
+
 // API 응답 타입 정의
 interface DomesticIndexResponse {
   datas: Array<{
@@ -114,11 +276,49 @@ interface DomesticIndexResponse {
   }>;
 }
 
-interface NasdaqStatusResponse {
-  datas: NasdaqStatusItem[];
+interface DomesticStockResponse {
+  datas: Array<{
+    itemCode: string;
+    stockName: string;
+    closePrice: string;
+    compareToPreviousClosePrice: string;
+    compareToPreviousPrice: {
+      code: string;  // "1" = 상한, "2" = 상승, "3" = 보합, "4" = 하한, "5" = 하락
+      text: string;
+      name: string;
+    };
+    fluctuationsRatio: string;
+    accumulatedTradingVolume?: string;
+    stockExchangeType?: {
+      nameKor?: string;
+    };
+  }>;
+}
+
+interface DomesticStockIntegrationResponse {
+  totalInfos?: Array<{
+    code: string;   // "marketValue" = 시가총액
+    key: string;
+    value: string;
+  }>;
+}
+
+interface StockAutocompleteResponse {
+  items?: Array<{
+    code: string;
+    name: string;
+    typeName?: string;      // 코스피, 코스닥
+    nationCode?: string;    // KOR
+    category?: string;      // stock
+  }>;
+}
+
+interface WorldIndexStatusResponse {
+  datas: WorldIndexStatusItem[];
 }
 
-interface NasdaqStatusItem {
+interface WorldIndexStatusItem {
+  reutersCode?: string;
   indexName?: string;
   closePrice: string;
   compareToPreviousClosePrice: string;
@@ -136,7 +336,7 @@ interface NasdaqStatusItem {
   localTradedAt?: string;
 }
 
-interface NasdaqHistoricalPriceItem extends NasdaqStatusItem {
+interface WorldIndexHistoricalPriceItem extends WorldIndexStatusItem {
   localTradedAt: string;
 }
 
@@ -153,11 +353,23 @@ interface ExchangeItem {
   fluctuationsRatio: string;
 }
 
+// 100단위로 고시되는 통화
+const EXCHANGE_QUOTE_UNITS: Record<string, number> = {
+  JPY: 100,
+  IDR: 100,
+  VND: 100,
+};
+
 interface ExchangeResponse {
   isSuccess: boolean;
   result: ExchangeItem[];
 }
 
+interface MarketIndexProductResponse {
+  isSuccess: boolean;
+  result?: Omit<ExchangeItem, 'exchangeCode'>;
+}
+
 interface FinnhubQuoteResponse {
   c?: number;   // current
   d?: number;   // change
@@ -165,6 +377,36 @@ interface FinnhubQuoteResponse {
   pc?: number;  // previous close
 }
 
+// 네이버 차트 API 응답 타입 (코스피/코스닥)
+interface NaverIndexChartResponse {
+  priceInfos?: Array<{
+    localDate: string;
+    closePrice: number;
+  }>;
+}
+
+// 네이버 환율 일별 시세 API 응답 타입
+interface NaverExchangePriceItem {
+  localTradedAt: string;  // "2025-11-28"
+  closePrice: string;     // "1,469.10" (문자열, 쉼표 포함)
+}
+
+interface NaverExchangePriceResponse {
+  isSuccess: boolean;
+  result: NaverExchangePriceItem[];
+}
+
+interface FinnhubForexRatesResponse {
+  base?: string;
+  quote?: Record<string, number>;
+}
+
+interface FinnhubCandleResponse {
+  s?: string;       // "ok" | "no_data"
+  c?: number[];     // close
+  t?: number[];     // unix timestamp (seconds)
+}
+
 interface FinnhubSearchItem {
   description?: string;
   displaySymbol?: string;
@@ -182,6 +424,11 @@ interface FinnhubProfileResponse {
   ticker?: string;
 }
 
+interface UpbitTickerItem {
+  market: string;
+  trade_price: number;
+}
+
 interface FinnhubQuoteResolved {
   currentPrice: number;
   change: number | null;
@@ -195,18 +442,20 @@ interface FinnhubCandidate {
 }
 
 /**
- * API 호출 유틸리티
+ * API 호출 유틸리티 (공유 캐시 사용, 기본은 실시간 시세 TTL)
  */
-async function fetchJson<T>(url: string): Promise<T> {
-  const response = await fetch(url, {
-    headers: DEFAULT_JSON_HEADERS,
-  });
+async function fetchJson<T>(url: string, source: CacheSource = 'realtime'): Promise<T> {
+  return withCache(source, url, async () => {
+    const response = await fetchWithFixtures(url, {
+      headers: DEFAULT_JSON_HEADERS,
+    });
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch ${url}: ${response.status}`);
-  }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    }
 
-  return response.json() as Promise<T>;
+    return response.json() as Promise<T>;
+  });
 }
 
 function formatNumericValue(value: number): string {
@@ -279,7 +528,10 @@ function dedupeSymbols(symbols: string[]): string[] {
   return result;
 }
 
-function buildDirectSymbolCandidates(query: string): string[] {
+/**
+ * 검색어를 바로 조회해볼 Finnhub 심볼 후보 (검색 API 호출 전 단계)
+ */
+export function buildDirectSymbolCandidates(query: string): string[] {
   const trimmed = query.trim();
   if (!trimmed) return [];
 
@@ -325,8 +577,19 @@ function makeFinnhubUrl(path: string, params: Record<string, string>): string {
   return url.toString();
 }
 
-async function callFinnhub<T>(path: string, params: Record<string, string>): Promise<T> {
-  const response = await fetch(makeFinnhubUrl(path, params), {
+// 캐시 키 (API 키 제외): finnhub:/quote?symbol=AAPL
+function makeFinnhubCacheKey(path: string, params: Record<string, string>): string {
+  const query = Object.entries(params)
+    .filter(([key]) => key !== 'token')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  return `finnhub:${path}?${query}`;
+}
+
+async function requestFinnhub<T>(path: string, params: Record<string, string>): Promise<T> {
+  const response = await fetchWithFixtures(makeFinnhubUrl(path, params), {
     headers: DEFAULT_JSON_HEADERS,
   });
 
@@ -341,6 +604,17 @@ async function callFinnhub<T>(path: string, params: Record<string, string>): Pro
   return response.json() as Promise<T>;
 }
 
+/**
+ * Finnhub API 호출 (source를 주면 공유 캐시 사용)
+ */
+async function callFinnhub<T>(path: string, params: Record<string, string>, source?: CacheSource): Promise<T> {
+  if (!source) {
+    return requestFinnhub<T>(path, params);
+  }
+
+  return withCache(source, makeFinnhubCacheKey(path, params), () => requestFinnhub<T>(path, params));
+}
+
 async function fetchFinnhubQuote(symbol: string, apiKey: string): Promise<FinnhubQuoteResolved | null> {
   let quote: FinnhubQuoteResponse;
 
@@ -348,7 +622,7 @@ async function fetchFinnhubQuote(symbol: string, apiKey: string): Promise<Finnhu
     quote = await callFinnhub<FinnhubQuoteResponse>('/quote', {
       symbol,
       token: apiKey,
-    });
+    }, 'realtime');
   } catch (error) {
     if (String(error).includes('FINNHUB_NOT_FOUND')) {
       return null;
@@ -394,7 +668,7 @@ async function fetchFinnhubProfileName(symbol: string, apiKey: string): Promise<
     const profile = await callFinnhub<FinnhubProfileResponse>('/stock/profile2', {
       symbol,
       token: apiKey,
-    });
+    }, 'reference');
 
     const name = profile.name?.trim();
     if (name) return name;
@@ -409,7 +683,7 @@ async function searchFinnhub(query: string, apiKey: string): Promise<FinnhubCand
   const payload = await callFinnhub<FinnhubSearchResponse>('/search', {
     q: query,
     token: apiKey,
-  });
+  }, 'reference');
 
   const results = payload.result || [];
   const normalizedQuery = query.trim().toUpperCase();
@@ -553,12 +827,167 @@ export async function getFinnhubMarketData(query: string, apiKey: string): Promi
   return { status: 'not_found', query: trimmedQuery };
 }
 
+/**
+ * 가상화폐 USD 시세 (Finnhub 직접 심볼 후보 사용: BTC → BINANCE:BTCUSDT, COINBASE:BTC-USD)
+ *
+ * 시세가 없으면 null, 모든 후보가 오류이면 첫 오류를 던진다.
+ */
+export async function getFinnhubCryptoUsdPrice(
+  base: string,
+  apiKey: string
+): Promise<{ symbol: string; price: number } | null> {
+  let firstError: string | null = null;
+
+  for (const symbol of buildDirectSymbolCandidates(`${base}-USD`)) {
+    try {
+      const quote = await fetchFinnhubQuote(symbol, apiKey);
+      if (quote && quote.currentPrice > 0) {
+        return { symbol, price: quote.currentPrice };
+      }
+    } catch (error) {
+      if (!firstError) {
+        firstError = String(error);
+      }
+    }
+  }
+
+  if (firstError) {
+    throw new Error(firstError);
+  }
+
+  return null;
+}
+
+function formatUnixChartDate(timestamp: number): string {
+  const [, month, day] = new Date(timestamp * 1000).toISOString().slice(0, 10).split('-');
+  return `${month}/${day}`;
+}
+
+/**
+ * Finnhub 일봉 API에서 최근 N개 종가 가져오기 (데이터가 없으면 null)
+ *
+ * path: /stock/candle, /crypto/candle, /forex/candle
+ */
+export async function getFinnhubCandleCloses(
+  path: string,
+  symbol: string,
+  count: number,
+  apiKey: string,
+  tradesEveryDay = false
+): Promise<DailyClosePrice[] | null> {
+  // 주말/휴장일을 감안해 넉넉한 기간을 조회한 뒤 최근 N개만 사용
+  const to = Math.floor(Date.now() / 1000);
+  const lookbackDays = tradesEveryDay ? count + 1 : Math.ceil(count * 1.5) + 7;
+  const from = to - lookbackDays * 24 * 60 * 60;
+
+  // from/to는 호출마다 달라지므로 조회 기간(lookbackDays)으로 캐시 키를 만든다
+  const cacheKey = `finnhub:${path}?days=${lookbackDays}&resolution=D&symbol=${symbol}`;
+  const candles = await withCache('history', cacheKey, () => callFinnhub<FinnhubCandleResponse>(path, {
+    symbol,
+    resolution: 'D',
+    from: String(from),
+    to: String(to),
+    token: apiKey,
+  }));
+
+  const closes = candles.c;
+  const timestamps = candles.t;
+
+  if (candles.s !== 'ok' || !closes || !timestamps) {
+    return null;
+  }
+
+  return timestamps
+    .map((timestamp, index) => ({
+      date: formatUnixChartDate(timestamp),
+      closePrice: closes[index],
+    }))
+    .filter(item => Number.isFinite(item.closePrice))
+    .slice(-count);
+}
+
+/**
+ * Finnhub 심볼 시세 조회 (검색 없이 심볼 그대로 사용, 없으면 null)
+ */
+export async function getFinnhubQuote(symbol: string, apiKey: string): Promise<MarketSummaryItem | null> {
+  const quote = await fetchFinnhubQuote(symbol, apiKey);
+  if (!quote) return null;
+
+  return {
+    value: formatNumericValue(quote.currentPrice),
+    change: toChangeInfo(quote.change, quote.changePercent),
+  };
+}
+
+/**
+ * Finnhub 원화 환율 (통화 1단위당 원화, 네이버와 같은 고시 단위 적용)
+ *
+ * /forex/rates는 전일 대비 변동을 제공하지 않아 change는 비워 둔다.
+ */
+export async function getFinnhubKrwRate(currency: string, apiKey: string): Promise<MarketSummaryItem | null> {
+  const data = await callFinnhub<FinnhubForexRatesResponse>('/forex/rates', {
+    base: 'USD',
+    token: apiKey,
+  }, 'realtime');
+
+  const krwPerUsd = data.quote?.KRW;
+  const currencyPerUsd = currency === 'USD' ? 1 : data.quote?.[currency];
+
+  if (!krwPerUsd || !currencyPerUsd) {
+    return null;
+  }
+
+  const quoteUnit = EXCHANGE_QUOTE_UNITS[currency] || 1;
+  const rate = (krwPerUsd / currencyPerUsd) * quoteUnit;
+
+  return {
+    value: rate.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+  };
+}
+
+/**
+ * Finnhub 일봉 종가 가져오기 (최근 N개 봉)
+ *
+ * 심볼은 getFinnhubMarketData로 해석하고, 가상화폐는 /crypto/candle, 그 외는 /stock/candle을 사용한다.
+ */
+export async function getFinnhubDailyCloses(
+  query: string,
+  count: number,
+  apiKey: string
+): Promise<FinnhubDailyClosesResult> {
+  const lookup = await getFinnhubMarketData(query, apiKey);
+  if (lookup.status !== 'ok') {
+    return lookup;
+  }
+
+  const { symbol, name, assetType } = lookup.data;
+  const path = assetType === 'crypto' ? '/crypto/candle' : '/stock/candle';
+
+  try {
+    const prices = await getFinnhubCandleCloses(path, symbol, count, apiKey, assetType === 'crypto');
+
+    if (!prices) {
+      return { status: 'not_found', query };
+    }
+
+    return { status: 'ok', symbol, name, prices };
+  } catch (error) {
+    return {
+      status: 'error',
+      query,
+      reason: `Finnhub candle lookup failed: ${String(error)}`,
+    };
+  }
+}
+
 /**
  * 변동 코드를 방향으로 변환
  */
 function codeToDirection(code: string): ChangeDirection {
   switch (code) {
+    case '1': return 'up';      // 상한
     case '2': return 'up';      // 상승
+    case '4': return 'down';    // 하한
     case '5': return 'down';    // 하락
     case '3': return 'unchanged'; // 보합
     default: return 'unchanged';
@@ -583,7 +1012,7 @@ function formatMarketStatus(status?: string): string {
   }
 }
 
-function formatNasdaqChartDate(localTradedAt: string): string {
+function formatWorldIndexChartDate(localTradedAt: string): string {
   const datePart = localTradedAt.slice(0, 10);
   const [, month, day] = datePart.split('-');
 
@@ -681,49 +1110,206 @@ export async function getNasdaq(): Promise<MarketSummaryItem> {
 }
 
 /**
- * 나스닥 장마감 현황 가져오기
+ * 국내 종목 검색어 여부 (6자리 종목코드 또는 한글 종목명)
  */
-export async function getNasdaqCloseStatus(): Promise<NasdaqCloseStatus | null> {
+export function isDomesticStockQuery(query: string): boolean {
+  const trimmed = query.trim();
+  return DOMESTIC_STOCK_CODE_PATTERN.test(trimmed) || HANGUL_PATTERN.test(trimmed);
+}
+
+/**
+ * 네이버 자동완성으로 국내 종목 찾기 (이름이 정확히 같은 종목 우선)
+ */
+async function searchDomesticStock(query: string): Promise<{ code: string; name: string; market?: string } | null> {
+  const data = await fetchJson<StockAutocompleteResponse>(
+    `${API_URLS.STOCK_AUTOCOMPLETE}?q=${encodeURIComponent(query)}&target=stock`,
+    'reference',
+  );
+
+  const items = (data.items || [])
+    .filter(item => item.nationCode === 'KOR' && DOMESTIC_STOCK_CODE_PATTERN.test(item.code));
+  const item = items.find(candidate => candidate.name === query) || items[0];
+
+  return item ? { code: item.code, name: item.name, market: item.typeName } : null;
+}
+
+async function fetchDomesticStockMarketCap(code: string): Promise<string | undefined> {
   try {
-    const data = await fetchJson<NasdaqStatusResponse>(API_URLS.NASDAQ_STATUS);
+    const data = await fetchJson<DomesticStockIntegrationResponse>(
+      `${API_URLS.DOMESTIC_STOCK_INTEGRATION}/${code}/integration`,
+    );
+    return data.totalInfos?.find(info => info.code === 'marketValue')?.value || undefined;
+  } catch (error) {
+    // 시가총액 실패는 시세 조회 실패로 보지 않음
+    console.warn(`Domestic stock market cap unavailable for ${code}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * 국내 종목 시세 조회 (6자리 종목코드 또는 종목명)
+ */
+export async function getDomesticStockData(query: string): Promise<DomesticStockLookupResult> {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return { status: 'not_found', query };
+  }
+
+  try {
+    const candidate = DOMESTIC_STOCK_CODE_PATTERN.test(trimmed)
+      ? { code: trimmed, market: undefined }
+      : await searchDomesticStock(trimmed);
+
+    if (!candidate) {
+      return { status: 'not_found', query: trimmed };
+    }
+
+    const [data, marketCap] = await Promise.all([
+      fetchJson<DomesticStockResponse>(`${API_URLS.DOMESTIC_STOCK}/${candidate.code}`),
+      fetchDomesticStockMarketCap(candidate.code),
+    ]);
     const item = data.datas?.[0];
 
     if (!item?.closePrice) {
-      return null;
+      return { status: 'not_found', query: trimmed };
+    }
+
+    return {
+      status: 'ok',
+      data: {
+        code: candidate.code,
+        name: item.stockName,
+        market: item.stockExchangeType?.nameKor || candidate.market || '',
+        value: item.closePrice,
+        change: {
+          direction: codeToDirection(item.compareToPreviousPrice?.code),
+          value: item.compareToPreviousClosePrice || '',
+          percent: normalizeChangePercent(item.fluctuationsRatio),
+        },
+        volume: item.accumulatedTradingVolume,
+        marketCap,
+        sourceUrl: `https://finance.naver.com/item/main.naver?code=${candidate.code}`,
+      },
+    };
+  } catch (error) {
+    return { status: 'error', query: trimmed, reason: String(error) };
+  }
+}
+
+function toUsIndexCloseStatus(code: UsIndexCode, item: WorldIndexStatusItem): UsIndexCloseStatus {
+  return {
+    reutersCode: code,
+    name: US_INDEX_NAMES[code],
+    value: item.closePrice,
+    change: {
+      direction: codeToDirection(item.compareToPreviousPrice?.code || ''),
+      value: item.compareToPreviousClosePrice || '',
+      percent: normalizeChangePercent(item.fluctuationsRatio),
+    },
+    marketStatus: item.marketStatus || '',
+    marketStatusText: formatMarketStatus(item.marketStatus),
+    localTradedAt: item.localTradedAt || '',
+    openPrice: item.openPrice,
+    highPrice: item.highPrice,
+    lowPrice: item.lowPrice,
+    accumulatedTradingVolume: item.accumulatedTradingVolume,
+    sourceUrl: `${WORLD_INDEX_SOURCE_URL}/${code}/price`,
+  };
+}
+
+/**
+ * 미국 지수 장마감 현황 가져오기 (요청한 지수 순서대로, 응답에 없는 지수는 제외)
+ */
+export async function getUsIndexCloseStatuses(
+  codes: UsIndexCode[] = US_CLOSE_INDEX_CODES
+): Promise<UsIndexCloseStatus[]> {
+  try {
+    const data = await fetchJson<WorldIndexStatusResponse>(`${API_URLS.WORLD_INDEX_STATUS}?reutersCodes=${codes.join(',')}`);
+    const items = data.datas || [];
+
+    return codes.flatMap(code => {
+      const item = items.find(candidate => candidate.reutersCode === code);
+      return item?.closePrice ? [toUsIndexCloseStatus(code, item)] : [];
+    });
+  } catch (error) {
+    console.error('Error fetching US index close status:', error);
+    return [];
+  }
+}
+
+/**
+ * 미국 증시 모닝 브리핑 데이터 (지수는 한 번에 조회, 실패한 항목은 value: null)
+ */
+export async function getUsOvernightSummary(): Promise<UsOvernightSummary> {
+  const codes = Object.values(US_OVERNIGHT_INDEX_CODES);
+
+  const [indexItems, us10y, usdKrwNdf] = await Promise.all([
+    fetchJson<WorldIndexStatusResponse>(`${API_URLS.WORLD_INDEX_STATUS}?reutersCodes=${codes.join(',')}`)
+      .then(data => data.datas || [])
+      .catch(error => {
+        console.error('Error fetching US overnight indices:', error);
+        return [] as WorldIndexStatusItem[];
+      }),
+    getUs10y(),
+    fetchMarketIndexProduct(USD_KRW_NDF_PRODUCT, 'USD/KRW NDF'),
+  ]);
+
+  const toSummaryItem = (code: string): MarketSummaryItem => {
+    const item = indexItems.find(candidate => candidate.reutersCode === code);
+
+    if (!item?.closePrice) {
+      return { value: null };
     }
 
     return {
-      name: item.indexName || '나스닥 종합',
       value: item.closePrice,
       change: {
         direction: codeToDirection(item.compareToPreviousPrice?.code || ''),
         value: item.compareToPreviousClosePrice || '',
         percent: normalizeChangePercent(item.fluctuationsRatio),
       },
-      marketStatus: item.marketStatus || '',
-      marketStatusText: formatMarketStatus(item.marketStatus),
-      localTradedAt: item.localTradedAt || '',
-      openPrice: item.openPrice,
-      highPrice: item.highPrice,
-      lowPrice: item.lowPrice,
-      accumulatedTradingVolume: item.accumulatedTradingVolume,
-      sourceUrl: NASDAQ_SOURCE_URL,
     };
-  } catch (error) {
-    console.error('Error fetching NASDAQ close status:', error);
-    return null;
+  };
+
+  return {
+    dji: toSummaryItem(US_OVERNIGHT_INDEX_CODES.dji),
+    inx: toSummaryItem(US_OVERNIGHT_INDEX_CODES.inx),
+    ixic: toSummaryItem(US_OVERNIGHT_INDEX_CODES.ixic),
+    sox: toSummaryItem(US_OVERNIGHT_INDEX_CODES.sox),
+    vix: toSummaryItem(US_OVERNIGHT_INDEX_CODES.vix),
+    us10y,
+    usdKrwNdf,
+    localTradedAt: indexItems.find(item => item.reutersCode === US_OVERNIGHT_INDEX_CODES.ixic)?.localTradedAt
+      || indexItems[0]?.localTradedAt,
+  };
+}
+
+/**
+ * 해외 지수 일별 시세 원본 가져오기 (최신순, 최대 N거래일)
+ */
+async function fetchWorldIndexPriceItems(code: string, count: number): Promise<WorldIndexHistoricalPriceItem[]> {
+  const items: WorldIndexHistoricalPriceItem[] = [];
+
+  for (let page = 1; items.length < count; page += 1) {
+    const url = `${API_URLS.WORLD_INDEX_PRICES}/${code}/price?page=${page}&pageSize=${WORLD_INDEX_PRICE_PAGE_SIZE}`;
+    const data = await fetchJson<WorldIndexHistoricalPriceItem[]>(url, 'history');
+
+    items.push(...data);
+
+    if (data.length < WORLD_INDEX_PRICE_PAGE_SIZE) break;
   }
+
+  return items.slice(0, count);
 }
 
 /**
- * 나스닥 최근 30거래일 종가 가져오기
+ * 미국 지수 최근 N거래일 종가 가져오기 (기본 30거래일)
  */
-export async function getNasdaqRecentPrices(): Promise<NasdaqDailyPrice[]> {
+export async function getUsIndexRecentPrices(code: UsIndexCode, count = 30): Promise<DailyClosePrice[]> {
   try {
-    const data = await fetchJson<NasdaqHistoricalPriceItem[]>(API_URLS.NASDAQ_RECENT_PRICES);
+    const items = await fetchWorldIndexPriceItems(code, count);
 
-    return data
-      .slice(0, 30)
+    return items
       .reverse()
       .map(item => {
         const closePrice = parsePrice(item.closePrice);
@@ -733,36 +1319,183 @@ export async function getNasdaqRecentPrices(): Promise<NasdaqDailyPrice[]> {
         }
 
         return {
-          date: formatNasdaqChartDate(item.localTradedAt),
+          date: formatWorldIndexChartDate(item.localTradedAt),
           closePrice,
         };
       })
-      .filter((item): item is NasdaqDailyPrice => item !== null);
+      .filter((item): item is DailyClosePrice => item !== null);
   } catch (error) {
-    console.error('Error fetching NASDAQ recent prices:', error);
+    console.error(`Error fetching ${code} recent prices:`, error);
     return [];
   }
 }
 
 /**
- * 환율 정보 가져오기 (캐싱)
+ * 미국 지수 최근 N거래일 일봉(OHLC + 거래량) 가져오기 (기본 30거래일)
  */
-let exchangeCache: {
-  data: ExchangeResponse | null;
-  timestamp: number;
-} = { data: null, timestamp: 0 };
+export async function getUsIndexRecentCandles(code: UsIndexCode, count = 30): Promise<IndexDailyCandle[]> {
+  try {
+    const items = await fetchWorldIndexPriceItems(code, count);
 
-async function getExchangeData(): Promise<ExchangeResponse | null> {
-  const now = Date.now();
-  // 1분간 캐싱
-  if (exchangeCache.data && now - exchangeCache.timestamp < 60000) {
-    return exchangeCache.data;
+    return items
+      .reverse()
+      .map(item => {
+        const openPrice = parsePrice(item.openPrice);
+        const highPrice = parsePrice(item.highPrice);
+        const lowPrice = parsePrice(item.lowPrice);
+        const closePrice = parsePrice(item.closePrice);
+
+        if (openPrice === null || highPrice === null || lowPrice === null || closePrice === null) {
+          return null;
+        }
+
+        return {
+          date: formatWorldIndexChartDate(item.localTradedAt),
+          timestamp: Date.parse(item.localTradedAt.slice(0, 10)),
+          openPrice,
+          highPrice,
+          lowPrice,
+          closePrice,
+          volume: parsePrice(item.accumulatedTradingVolume) ?? 0,
+        };
+      })
+      .filter((item): item is IndexDailyCandle => item !== null);
+  } catch (error) {
+    console.error(`Error fetching ${code} recent candles:`, error);
+    return [];
   }
+}
 
+/**
+ * 코스피/코스닥 지수, 국내 종목 최근 N거래일 종가 (네이버 차트 API)
+ */
+async function fetchDomesticDailyCloses(chartUrl: string, code: string, count: number): Promise<DailyClosePrice[]> {
   try {
-    const data = await fetchJson<ExchangeResponse>(API_URLS.EXCHANGE);
-    exchangeCache = { data, timestamp: now };
-    return data;
+    const data = await fetchJson<NaverIndexChartResponse>(`${chartUrl}/${code}?periodType=dayCandle`, 'history');
+
+    if (!data.priceInfos || data.priceInfos.length === 0) {
+      console.error(`No ${code} price data`);
+      return [];
+    }
+
+    return data.priceInfos.slice(-count).map(item => {
+      const month = item.localDate.substring(4, 6);
+      const day = item.localDate.substring(6, 8);
+
+      return { date: `${month}/${day}`, closePrice: item.closePrice };
+    });
+  } catch (error) {
+    console.error(`Error fetching ${code} chart data:`, error);
+    return [];
+  }
+}
+
+/**
+ * 국내 종목 최근 N거래일 종가 (네이버)
+ */
+export async function getDomesticStockDailyCloses(code: string, count: number): Promise<DailyClosePrice[]> {
+  return fetchDomesticDailyCloses(API_URLS.DOMESTIC_STOCK_CHART, code, count);
+}
+
+/**
+ * 환율·원자재·금리 최근 N거래일 종가 (네이버 일별 시세 API, 페이지 단위 조회)
+ */
+async function fetchMarketIndexDailyCloses(
+  category: string,
+  reutersCode: string,
+  count: number
+): Promise<DailyClosePrice[]> {
+  try {
+    const items: NaverExchangePriceItem[] = [];
+
+    for (let page = 1; items.length < count && page <= MAX_EXCHANGE_PAGES; page += 1) {
+      const url = `${API_URLS.EXCHANGE_PRICES}?category=${category}&reutersCode=${encodeURIComponent(reutersCode)}&page=${page}&pageSize=${EXCHANGE_PRICE_PAGE_SIZE}`;
+      let data: NaverExchangePriceResponse;
+
+      try {
+        data = await fetchJson<NaverExchangePriceResponse>(url, 'history');
+      } catch (error) {
+        console.error(`${reutersCode} chart API error:`, error);
+        break;
+      }
+
+      if (!data.isSuccess || !data.result || data.result.length === 0) {
+        break;
+      }
+
+      items.push(...data.result);
+
+      if (data.result.length < EXCHANGE_PRICE_PAGE_SIZE) break;
+    }
+
+    if (items.length === 0) {
+      console.error(`No ${reutersCode} price data in response`);
+      return [];
+    }
+
+    // 최신순으로 정렬되어 있으므로 reverse
+    return items.slice(0, count).reverse().map(item => {
+      const [, month, day] = item.localTradedAt.split('-');
+      return { date: `${month}/${day}`, closePrice: parseFloat(item.closePrice.replace(/,/g, '')) };
+    });
+  } catch (error) {
+    console.error(`Error fetching ${reutersCode} chart data:`, error);
+    return [];
+  }
+}
+
+/**
+ * 시장별 최근 N거래일 종가 (네이버)
+ */
+export async function getNaverDailyCloses(marketType: MarketType, count: number): Promise<DailyClosePrice[]> {
+  const indexCode = DOMESTIC_INDEX_CODES[marketType];
+  if (indexCode) {
+    return fetchDomesticDailyCloses(API_URLS.DOMESTIC_INDEX_CHART, indexCode, count);
+  }
+
+  const reutersCode = EXCHANGE_REUTERS_CODES[marketType];
+  if (reutersCode) {
+    return fetchMarketIndexDailyCloses('exchange', reutersCode, count);
+  }
+
+  const product = MARKET_INDEX_PRODUCTS[marketType];
+  if (product) {
+    return fetchMarketIndexDailyCloses(product.category, product.reutersCode, count);
+  }
+
+  if (marketType === 'nasdaq') {
+    return getUsIndexRecentPrices('.IXIC', count);
+  }
+
+  return [];
+}
+
+/**
+ * 업비트 원화 마켓 현재가 (KRW-<심볼> 마켓이 없으면 null)
+ */
+export async function getUpbitKrwPrice(base: string): Promise<number | null> {
+  let tickers: UpbitTickerItem[];
+
+  try {
+    tickers = await fetchJson<UpbitTickerItem[]>(`${API_URLS.UPBIT_TICKER}?markets=KRW-${encodeURIComponent(base)}`);
+  } catch (error) {
+    // 존재하지 않는 마켓은 404 (Code not found)
+    if (String(error).includes(': 404')) {
+      return null;
+    }
+    throw error;
+  }
+
+  const price = tickers[0]?.trade_price;
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+/**
+ * 환율 정보 가져오기 (공유 캐시, 실시간 시세 TTL)
+ */
+async function getExchangeData(): Promise<ExchangeResponse | null> {
+  try {
+    return await fetchJson<ExchangeResponse>(API_URLS.EXCHANGE);
   } catch (error) {
     console.error('Error fetching exchange data:', error);
     return null;
@@ -795,121 +1528,114 @@ async function getExchange(code: 'USD' | 'EUR' | 'JPY' | 'GBP' | 'CHF' | 'CNY'):
   };
 }
 
-export const getUsd = () => getExchange('USD');
-export const getEur = () => getExchange('EUR');
-export const getJpy = () => getExchange('JPY');
-export const getGbp = () => getExchange('GBP');
-export const getChf = () => getExchange('CHF');
-export const getCny = () => getExchange('CNY');
-
 /**
- * 특정 시세 정보 가져오기
+ * 원화 기준 환율표 (통화 1단위당 원화)
+ *
+ * 네이버 환율은 JPY 등 일부 통화를 100단위 기준으로 고시하므로 1단위로 환산한다.
  */
-export async function getMarketData(type: MarketType): Promise<MarketData | null> {
-  const marketNames: Record<MarketType, string> = {
-    kospi: '코스피',
-    kosdaq: '코스닥',
-    nasdaq: '나스닥',
-    usd: '달러',
-    jpy: '엔화',
-    eur: '유로',
-    gbp: '파운드',
-    chf: '스위스프랑',
-    cny: '위안',
-  };
-
-  const fetchers: Record<MarketType, () => Promise<MarketSummaryItem>> = {
-    kospi: getKospi,
-    kosdaq: getKosdaq,
-    nasdaq: getNasdaq,
-    usd: getUsd,
-    jpy: getJpy,
-    eur: getEur,
-    gbp: getGbp,
-    chf: getChf,
-    cny: getCny,
-  };
-
-  const result = await fetchers[type]();
+export async function getKrwExchangeRates(): Promise<ExchangeRate[] | null> {
+  const data = await getExchangeData();
 
-  if (!result.value) {
+  if (!data || !data.isSuccess || !data.result) {
     return null;
   }
 
-  return {
-    type,
-    name: marketNames[type],
-    value: result.value,
-    change: result.change,
-  };
+  return data.result
+    .map((item): ExchangeRate | null => {
+      const quotedRate = parsePrice(item.closePrice);
+      if (quotedRate === null || quotedRate <= 0) return null;
+
+      const quoteUnit = EXCHANGE_QUOTE_UNITS[item.exchangeCode] || 1;
+
+      return {
+        code: item.exchangeCode,
+        krwPerUnit: quotedRate / quoteUnit,
+        quotedRate: item.closePrice,
+        quoteUnit,
+      };
+    })
+    .filter((item): item is ExchangeRate => item !== null);
 }
 
 /**
- * 일일 시장 종합 정보 가져오기
+ * 원자재·금리 시세 (금, WTI, 미국채 10년, 국고채 3년)
  */
-export async function getDailyMarketSummary(): Promise<DailyMarketSummary> {
-  // 병렬로 데이터 가져오기
-  const [kospi, kosdaq, usd, eur, jpy, gbp, chf, cny] = await Promise.all([
-    getKospi(),
-    getKosdaq(),
-    getUsd(),
-    getEur(),
-    getJpy(),
-    getGbp(),
-    getChf(),
-    getCny(),
-  ]);
+async function getMarketIndexProduct(marketType: MarketType): Promise<MarketSummaryItem> {
+  const product = MARKET_INDEX_PRODUCTS[marketType];
+  return product ? fetchMarketIndexProduct(product, marketType) : { value: null };
+}
 
-  return { kospi, kosdaq, usd, eur, jpy, gbp, chf, cny };
+/**
+ * 네이버 marketIndex 상품 시세 (카테고리 + 로이터 코드)
+ */
+async function fetchMarketIndexProduct(
+  product: { category: string; reutersCode: string },
+  label: string
+): Promise<MarketSummaryItem> {
+  try {
+    const url = `${API_URLS.MARKET_INDEX_PRODUCT}?category=${product.category}&reutersCode=${encodeURIComponent(product.reutersCode)}`;
+    const data = await fetchJson<MarketIndexProductResponse>(url);
+    const item = data.result;
+
+    if (!data.isSuccess || !item?.closePrice) {
+      return { value: null };
+    }
+
+    return {
+      value: item.closePrice,
+      change: {
+        direction: codeToDirection(item.fluctuationsType?.code),
+        value: item.fluctuations || '',
+        percent: normalizeChangePercent(item.fluctuationsRatio),
+      },
+    };
+  } catch (error) {
+    console.error(`Error fetching ${label}:`, error);
+    return { value: null };
+  }
 }
 
+export const getUsd = () => getExchange('USD');
+export const getEur = () => getExchange('EUR');
+export const getJpy = () => getExchange('JPY');
+export const getGbp = () => getExchange('GBP');
+export const getChf = () => getExchange('CHF');
+export const getCny = () => getExchange('CNY');
+export const getGold = () => getMarketIndexProduct('gold');
+export const getWti = () => getMarketIndexProduct('wti');
+export const getUs10y = () => getMarketIndexProduct('us10y');
+export const getKr3y = () => getMarketIndexProduct('kr3y');
+
+/**
+ * 시장별 명령어 별칭 (도움말과 parseCommand가 함께 사용)
+ */
+export const MARKET_COMMAND_ALIASES: Record<MarketType, string[]> = {
+  kospi: ['코스피', 'kospi', 'KOSPI'],
+  kosdaq: ['코스닥', 'kosdaq', 'KOSDAQ'],
+  nasdaq: ['나스닥', 'nasdaq', 'NASDAQ'],
+  usd: ['달러', 'usd', 'USD'],
+  jpy: ['엔화', '엔', 'jpy', 'JPY'],
+  eur: ['유로', 'eur', 'EUR'],
+  gbp: ['파운드', 'gbp', 'GBP'],
+  chf: ['스위스프랑', '프랑', 'chf', 'CHF'],
+  cny: ['위안', '중국', 'cny', 'CNY'],
+  gold: ['금', '금값', 'gold', 'GOLD'],
+  wti: ['유가', 'wti', 'WTI'],
+  us10y: ['미국채', '미국채10년', 'us10y', 'US10Y'],
+  kr3y: ['국고채', '국고채3년', 'kr3y', 'KR3Y'],
+};
+
+const MARKET_COMMAND_MAP: Record<string, MarketType> = Object.fromEntries(
+  (Object.entries(MARKET_COMMAND_ALIASES) as Array<[MarketType, string[]]>)
+    .flatMap(([marketType, aliases]) => aliases.map(alias => [alias, marketType]))
+);
+
 /**
  * 명령어를 MarketType으로 변환
  */
 export function parseCommand(command: string): MarketType | null {
-  const commandMap: Record<string, MarketType> = {
-    // 코스피
-    '코스피': 'kospi',
-    'kospi': 'kospi',
-    'KOSPI': 'kospi',
-    // 코스닥
-    '코스닥': 'kosdaq',
-    'kosdaq': 'kosdaq',
-    'KOSDAQ': 'kosdaq',
-    // 나스닥
-    '나스닥': 'nasdaq',
-    'nasdaq': 'nasdaq',
-    'NASDAQ': 'nasdaq',
-    // 달러
-    '달러': 'usd',
-    'usd': 'usd',
-    'USD': 'usd',
-    // 엔화
-    '엔화': 'jpy',
-    '엔': 'jpy',
-    'jpy': 'jpy',
-    'JPY': 'jpy',
-    // 유로
-    '유로': 'eur',
-    'eur': 'eur',
-    'EUR': 'eur',
-    // 파운드
-    '파운드': 'gbp',
-    'gbp': 'gbp',
-    'GBP': 'gbp',
-    // 스위스 프랑
-    '스위스프랑': 'chf',
-    '프랑': 'chf',
-    'chf': 'chf',
-    'CHF': 'chf',
-    // 위안
-    '위안': 'cny',
-    '중국': 'cny',
-    'cny': 'cny',
-    'CNY': 'cny',
-  };
-
-  return commandMap[command] || null;
+  // constructor, __proto__ 같은 상속 키가 시장으로 인식되지 않도록 자체 키만 확인
+  return Object.hasOwn(MARKET_COMMAND_MAP, command) ? MARKET_COMMAND_MAP[command] : null;
 }
 
 export function parseSearchCommand(command: string): string | null {
@@ -922,3 +1648,24 @@ export function parseSearchCommand(command: string): string | null {
   const query = trimmed.slice(1).trim();
   return query.length > 0 ? query : null;
 }
+
+export const STOCK_USAGE_TEXT = [
+  '사용법:',
+  '• 주식 삼성전자',
+  '• 주식 005930',
+  '• /stock 카카오',
+  '• ?005930',
+].join('\n');
+
+/**
+ * 국내 종목 명령어 파싱: 주식 삼성전자, /stock 005930 (검색어가 없으면 빈 문자열)
+ */
+export function parseStockCommand(command: string): string | null {
+  const match = command.trim().match(/^(?:주식|\/stock)(?:\s+(.*))?$/is);
+
+  if (!match) {
+    return null;
+  }
+
+  return (match[1] || '').trim();
+}
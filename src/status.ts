@@ -0,0 +1,180 @@
+/**
+ * 작업 실행 현황·상태 점검 모듈
+ *
+ * - 정기/수동 발송 작업마다 시작·종료 시각, 소스별 조회 성공 여부, 차트 생성 결과, 텔레그램 실패 사유를
+ *   BOT_STATE KV에 작업별 최근 실행 기록으로 남긴다 (키: status:job:<job>).
+ * - /status 명령어와 GET /status 엔드포인트는 기록된 실행 결과와 외부 소스 실시간 점검 결과를 함께 보여준다.
+ */
+
+import { DeliveryJob } from './idempotency';
+import { getUsd, ProviderName } from './scraper';
+import { getProviderStatuses, measureProbe, ProbeResult } from './providers';
+import { runWithFreshCache } from './cache';
+import { fetchWithFixtures } from './fixtures';
+import { ChartRenderer } from './renderer';
+import { BotStateKv } from './kv';
+
+export type StatusJob = DeliveryJob | 'price-alerts';
+export type JobTrigger = 'scheduled' | 'manual';
+export type JobRunStatus = 'success' | 'partial' | 'failed' | 'skipped';
+// 시세 제공자(providers.ts) 상태 점검과 함께 네이버 환율 API, QuickChart를 점검
+export type UpstreamSource = ProviderName | 'naver-exchange' | 'quickchart';
+
+export interface SourceFetchResult {
+  source: string;         // 시장 종류, 지수 코드, 알림 대상 키
+  ok: boolean;
+  provider?: string;      // 실제로 값을 준 제공자 (fallback 확인용)
+}
+
+export interface ChartGenerationResult {
+  chart: string;
+  ok: boolean;
+  renderer?: ChartRenderer;
+}
+
+export interface JobDeliveryResult {
+  chatId: string;
+  ok: boolean;
+  description?: string;   // 텔레그램 실패 사유
+}
+
+export interface JobRunOutcome {
+  sources: SourceFetchResult[];
+  charts: ChartGenerationResult[];
+  deliveries: JobDeliveryResult[];
+}
+
+export interface JobRunRecord extends JobRunOutcome {
+  job: StatusJob;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  startedAt: string;
+  finishedAt: string;
+  error?: string;
+}
+
+export interface SourceProbeResult extends ProbeResult {
+  source: UpstreamSource;
+}
+
+export interface StatusReport {
+  generatedAt: string;
+  probes: SourceProbeResult[];
+  jobs: Array<{ job: StatusJob; runs: JobRunRecord[] }>;
+}
+
+export const STATUS_JOBS: StatusJob[] = [
+  'daily-briefing',
+  'us-overnight-briefing',
+  'nasdaq-close-status',
+  'weekly-recap',
+  'monthly-recap',
+  'price-alerts',
+];
+
+export const STATUS_JOB_NAMES: Record<StatusJob, string> = {
+  'daily-briefing': '일일 브리핑',
+  'us-overnight-briefing': '미국 증시 모닝 브리핑',
+  'nasdaq-close-status': '미국 증시 장마감 현황',
+  'weekly-recap': '주간 리캡',
+  'monthly-recap': '월간 리캡',
+  'price-alerts': '가격 알림',
+};
+
+export const UPSTREAM_SOURCE_NAMES: Record<UpstreamSource, string> = {
+  naver: '네이버 지수',
+  'naver-exchange': '네이버 환율',
+  finnhub: 'Finnhub',
+  quickchart: 'QuickChart',
+};
+
+export const EMPTY_JOB_RUN_OUTCOME: JobRunOutcome = { sources: [], charts: [], deliveries: [] };
+
+const STATUS_KEY_PREFIX = 'status:job:';
+// 작업별로 보관할 최근 실행 기록 수
+const MAX_RUNS_PER_JOB = 5;
+const QUICKCHART_HEALTHCHECK_URL = 'https://quickchart.io/healthcheck';
+
+function getStatusKey(job: StatusJob): string {
+  return `${STATUS_KEY_PREFIX}${job}`;
+}
+
+/**
+ * 실행 결과 판정 (발송이 모두 실패했거나 모든 소스 조회가 실패하면 failed, 일부 실패는 partial)
+ */
+export function getJobRunStatus(outcome: JobRunOutcome): JobRunStatus {
+  const failedDeliveries = outcome.deliveries.filter(delivery => !delivery.ok).length;
+  const failedSources = outcome.sources.filter(source => !source.ok).length;
+
+  if (failedDeliveries > 0 && failedDeliveries === outcome.deliveries.length) {
+    return 'failed';
+  }
+
+  if (failedSources > 0 && failedSources === outcome.sources.length) {
+    return 'failed';
+  }
+
+  const hasFailures = failedDeliveries > 0 || failedSources > 0 || outcome.charts.some(chart => !chart.ok);
+  return hasFailures ? 'partial' : 'success';
+}
+
+/**
+ * 작업 실행 기록 저장 (최신순, 작업별 최근 MAX_RUNS_PER_JOB건). KV 오류는 로그만 남긴다.
+ */
+export async function recordJobRun(kv: BotStateKv | undefined, record: JobRunRecord): Promise<void> {
+  if (!kv) {
+    return;
+  }
+
+  try {
+    const key = getStatusKey(record.job);
+    const runs = await kv.get<JobRunRecord[]>(key, 'json') || [];
+    await kv.put(key, JSON.stringify([record, ...runs].slice(0, MAX_RUNS_PER_JOB)));
+  } catch (error) {
+    console.error('Job run record failed:', { job: record.job, error });
+  }
+}
+
+export async function loadJobRuns(kv: BotStateKv, job: StatusJob): Promise<JobRunRecord[]> {
+  return await kv.get<JobRunRecord[]>(getStatusKey(job), 'json') || [];
+}
+
+async function probeSource(source: UpstreamSource, probe: () => Promise<boolean>): Promise<SourceProbeResult> {
+  return { source, ...await measureProbe(probe) };
+}
+
+/**
+ * 외부 소스 실시간 점검 (캐시를 읽지 않음)
+ */
+export function probeUpstreamSources(finnhubApiKey?: string): Promise<SourceProbeResult[]> {
+  return runWithFreshCache(async () => {
+    const [providerStatuses, ...otherProbes] = await Promise.all([
+      getProviderStatuses(finnhubApiKey),
+      probeSource('naver-exchange', async () => !!(await getUsd()).value),
+      probeSource('quickchart', async () => {
+        const response = await fetchWithFixtures(QUICKCHART_HEALTHCHECK_URL);
+        if (!response.ok) {
+          throw new Error(`QuickChart healthcheck failed: ${response.status}`);
+        }
+        return true;
+      }),
+    ]);
+
+    return [
+      ...providerStatuses.map(({ provider, ...result }) => ({ source: provider, ...result })),
+      ...otherProbes,
+    ];
+  });
+}
+
+/**
+ * 작업별 최근 실행 기록과 외부 소스 점검 결과
+ */
+export async function getStatusReport(kv: BotStateKv, finnhubApiKey?: string): Promise<StatusReport> {
+  const [probes, jobs] = await Promise.all([
+    probeUpstreamSources(finnhubApiKey),
+    Promise.all(STATUS_JOBS.map(async job => ({ job, runs: await loadJobRuns(kv, job) }))),
+  ]);
+
+  return { generatedAt: new Date().toISOString(), probes, jobs };
+}
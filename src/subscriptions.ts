@@ -0,0 +1,175 @@
+/**
+ * 채팅방별 정기 발송 구독 모듈
+ *
+ * - `/subscribe daily`: 평일 일일 브리핑 구독
+ * - `/subscribe nasdaq`: 미국 증시 장마감 현황 구독
+ * - `/subscribe recap`: 주간(금요일)·월간(말일) 리캡 구독
+ * - `/subscribe overnight`: 평일 아침 7시 30분 미국 증시 모닝 브리핑 구독
+ * - `/unsubscribe [daily|nasdaq|recap|overnight]`: 구독 해지 (대상 생략 시 전체 해지)
+ */
+
+import { BotStateKv } from './kv';
+
+const SUBSCRIPTION_KEY_PREFIX = 'subscriptions:';
+
+export type SubscriptionJob = 'daily' | 'nasdaq' | 'recap' | 'overnight';
+
+export const SUBSCRIPTION_JOBS: SubscriptionJob[] = ['daily', 'nasdaq', 'recap', 'overnight'];
+
+export const SUBSCRIPTION_JOB_NAMES: Record<SubscriptionJob, string> = {
+  daily: '일일 브리핑',
+  nasdaq: '미국 증시 장마감 현황',
+  recap: '주간·월간 리캡',
+  overnight: '미국 증시 모닝 브리핑',
+};
+
+export interface ChatSubscription {
+  jobs: SubscriptionJob[];
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+export type SubscriptionCommand =
+  | { action: 'subscribe'; job: SubscriptionJob }
+  | { action: 'unsubscribe'; jobs: SubscriptionJob[] }
+  | { action: 'status' }
+  | { action: 'invalid'; reason: string };
+
+export const SUBSCRIPTION_USAGE_TEXT = [
+  '사용법:',
+  '• /subscribe daily - 일일 브리핑 구독',
+  '• /subscribe nasdaq - 미국 증시 장마감 현황 구독',
+  '• /subscribe recap - 주간·월간 리캡 구독',
+  '• /subscribe overnight - 미국 증시 모닝 브리핑 구독',
+  '• /unsubscribe daily - 일일 브리핑 구독 해지',
+  '• /unsubscribe - 전체 구독 해지',
+].join('\n');
+
+function parseSubscriptionJob(value: string): SubscriptionJob | null {
+  const normalized = value.trim().toLowerCase();
+  return (SUBSCRIPTION_JOBS as string[]).includes(normalized) ? normalized as SubscriptionJob : null;
+}
+
+/**
+ * /subscribe, /unsubscribe 명령어 파싱
+ */
+export function parseSubscriptionCommand(command: string): SubscriptionCommand | null {
+  const match = command.trim().match(/^\/(subscribe|unsubscribe)(?:@\w+)?(?:\s+(.*))?$/i);
+
+  if (!match) {
+    return null;
+  }
+
+  const action = match[1].toLowerCase();
+  const argument = (match[2] || '').trim();
+
+  if (action === 'subscribe') {
+    if (!argument) {
+      return { action: 'status' };
+    }
+
+    const job = parseSubscriptionJob(argument);
+    return job
+      ? { action: 'subscribe', job }
+      : { action: 'invalid', reason: `"${argument}"은(는) 구독할 수 없는 항목입니다.` };
+  }
+
+  if (!argument) {
+    return { action: 'unsubscribe', jobs: [...SUBSCRIPTION_JOBS] };
+  }
+
+  const job = parseSubscriptionJob(argument);
+  return job
+    ? { action: 'unsubscribe', jobs: [job] }
+    : { action: 'invalid', reason: `"${argument}"은(는) 구독 해지할 수 없는 항목입니다.` };
+}
+
+function getSubscriptionKey(chatId: string): string {
+  return `${SUBSCRIPTION_KEY_PREFIX}${chatId}`;
+}
+
+export async function loadChatSubscription(kv: BotStateKv, chatId: string): Promise<ChatSubscription | null> {
+  return kv.get<ChatSubscription>(getSubscriptionKey(chatId), 'json');
+}
+
+/**
+ * 채팅방 구독 항목 변경
+ *
+ * 전체 해지 시에도 레코드를 남겨 두어, 환경변수 기본 채팅방이 다시 시드 구독자로 취급되지 않도록 한다.
+ */
+export async function updateChatSubscription(
+  kv: BotStateKv,
+  chatId: string,
+  update: { add?: SubscriptionJob[]; remove?: SubscriptionJob[] },
+  seedChatId?: string,
+  updatedBy?: string
+): Promise<ChatSubscription> {
+  const existing = await loadChatSubscription(kv, chatId);
+  const current = new Set<SubscriptionJob>(
+    existing ? existing.jobs : chatId === seedChatId ? SUBSCRIPTION_JOBS : []
+  );
+
+  for (const job of update.add || []) current.add(job);
+  for (const job of update.remove || []) current.delete(job);
+
+  const subscription: ChatSubscription = {
+    jobs: SUBSCRIPTION_JOBS.filter(job => current.has(job)),
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  };
+
+  await kv.put(getSubscriptionKey(chatId), JSON.stringify(subscription));
+  return subscription;
+}
+
+/**
+ * 채팅방의 현재 구독 항목 (레코드가 없는 시드 채팅방은 전체 구독으로 간주)
+ */
+export async function getChatSubscribedJobs(
+  kv: BotStateKv,
+  chatId: string,
+  seedChatId?: string
+): Promise<SubscriptionJob[]> {
+  const subscription = await loadChatSubscription(kv, chatId);
+
+  if (subscription) {
+    return subscription.jobs;
+  }
+
+  return chatId === seedChatId ? [...SUBSCRIPTION_JOBS] : [];
+}
+
+/**
+ * 특정 정기 발송을 구독한 모든 채팅방 ID 조회
+ */
+export async function listSubscribedChatIds(
+  kv: BotStateKv,
+  job: SubscriptionJob,
+  seedChatId?: string
+): Promise<string[]> {
+  const chatIds: string[] = [];
+  const seenChatIds = new Set<string>();
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix: SUBSCRIPTION_KEY_PREFIX, cursor });
+
+    for (const key of page.keys) {
+      const chatId = key.name.slice(SUBSCRIPTION_KEY_PREFIX.length);
+      seenChatIds.add(chatId);
+
+      const subscription = await kv.get<ChatSubscription>(key.name, 'json');
+      if (subscription?.jobs.includes(job)) {
+        chatIds.push(chatId);
+      }
+    }
+
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  if (seedChatId && !seenChatIds.has(seedChatId)) {
+    chatIds.unshift(seedChatId);
+  }
+
+  return chatIds;
+}
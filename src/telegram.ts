@@ -2,7 +2,24 @@
  * 텔레그램 Bot API 모듈
  */
 
-import { ChangeInfo, DailyMarketSummary, MarketSummaryItem, NasdaqCloseStatus } from './scraper';
+import {
+  ChangeInfo,
+  DailyMarketSummary,
+  DomesticStockData,
+  KimchiPremium,
+  MarketSummaryItem,
+  UsIndexCloseStatus,
+  UsOvernightSummary,
+} from './scraper';
+import { AlertQuote, formatAlertCondition, PriceAlert } from './alerts';
+import { WatchlistEntry } from './watchlist';
+import { MarketHistoryRow } from './history';
+import { MarketRecap, MarketRecapItem, RECAP_PERIOD_NAMES } from './recap';
+import { JobRunRecord, JobRunStatus, STATUS_JOB_NAMES, StatusReport, UPSTREAM_SOURCE_NAMES } from './status';
+import { CurrencyConversion, formatCurrencyAmount } from './converter';
+import { ChartImage } from './renderer';
+import { InlineQuote } from './inline';
+import { CapturedTelegramCall, captureTelegramCall, isFixtureMode } from './fixtures';
 
 const TELEGRAM_API_BASE = 'https://api.telegram.org';
 const TELEGRAM_MAX_RETRIES = 3;
@@ -12,18 +29,31 @@ const TELEGRAM_RETRY_BASE_DELAY_MS = 500;
 export interface TelegramEnv {
   TELEGRAM_BOT_TOKEN: string;
   TELEGRAM_CHAT_ID: string;
+  TELEGRAM_CAPTURE?: CapturedTelegramCall[];  // /replay: 보내지 않고 이 목록에 기록
+}
+
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
 }
 
 export interface SendMessageOptions {
   parseMode?: 'HTML' | 'Markdown' | 'MarkdownV2';
   disableWebPagePreview?: boolean;
   disableNotification?: boolean;
+  replyMarkup?: InlineKeyboardMarkup;
 }
 
 export interface SendRichMessageOptions {
   disableNotification?: boolean;
   isRtl?: boolean;
   skipEntityDetection?: boolean;
+  replyMarkup?: InlineKeyboardMarkup;
 }
 
 export interface TelegramMessage {
@@ -47,9 +77,53 @@ export interface TelegramMessage {
   rich_message?: unknown;
 }
 
+export interface TelegramInlineQuery {
+  id: string;
+  from: {
+    id: number;
+    is_bot: boolean;
+    first_name: string;
+    username?: string;
+  };
+  query: string;
+  offset: string;
+  chat_type?: string;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: {
+    id: number;
+    is_bot: boolean;
+    first_name: string;
+    username?: string;
+  };
+  message?: TelegramMessage;
+  data?: string;
+}
+
 export interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
+  inline_query?: TelegramInlineQuery;
+  callback_query?: TelegramCallbackQuery;
+}
+
+export interface InlineQueryResultArticle {
+  type: 'article';
+  id: string;
+  title: string;
+  description?: string;
+  input_message_content: {
+    message_text: string;
+    parse_mode?: 'HTML';
+    link_preview_options?: { is_disabled: boolean };
+  };
+}
+
+export interface AnswerInlineQueryOptions {
+  cacheTime?: number;
+  isPersonal?: boolean;
 }
 
 export interface TelegramResponse<T> {
@@ -96,7 +170,7 @@ function formatChange(change?: ChangeInfo): string {
   return ` ${emoji}${signedValue}${percentText}`;
 }
 
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
@@ -108,10 +182,12 @@ function escapeHtml(text: string): string {
 function formatMarketTableRow(label: string, item: MarketSummaryItem): string {
   const value = item.value ?? 'N/A';
   const changeText = formatChange(item.change) || '➖';
+  // 기본 제공자(네이버) 대신 대체 제공자가 응답한 시세는 * 표시
+  const displayLabel = item.provider && item.provider !== 'naver' ? `${label} *` : label;
 
   return [
     '<tr>',
-    `<th align="left">${escapeHtml(label)}</th>`,
+    `<th align="left">${escapeHtml(displayLabel)}</th>`,
     `<td align="right"><b>${escapeHtml(value)}</b></td>`,
     `<td align="right">${escapeHtml(changeText.trim())}</td>`,
     '</tr>',
@@ -129,7 +205,129 @@ function formatTableKeyValueRow(label: string, value: string, bold = false): str
   ].join('');
 }
 
-function formatNasdaqLocalTime(localTradedAt: string): string {
+function formatDomesticStockDetails(stock: DomesticStockData): Array<[string, string]> {
+  const details: Array<[string, string]> = [];
+
+  if (stock.market) details.push(['시장', stock.market]);
+  if (stock.volume) details.push(['거래량', `${stock.volume}주`]);
+  if (stock.marketCap) details.push(['시가총액', stock.marketCap.endsWith('원') ? stock.marketCap : `${stock.marketCap}원`]);
+
+  return details;
+}
+
+function formatKstTime(date: Date): string {
+  return new Intl.DateTimeFormat('ko-KR', {
+    timeZone: 'Asia/Seoul',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false,
+  }).format(date);
+}
+
+function formatRefreshedAtLine(refreshedAt: Date): string {
+  return `<p><i>🔄 ${formatKstTime(refreshedAt)} (KST) 기준</i></p>`;
+}
+
+function formatPremiumPercent(percent: number): string {
+  const sign = percent > 0 ? '+' : percent < 0 ? '-' : '';
+  return `${sign}${Math.abs(percent).toFixed(2)}%`;
+}
+
+function formatKrwPrice(value: number): string {
+  return `${value.toLocaleString('en-US', { maximumFractionDigits: value >= 100 ? 0 : 2 })}원`;
+}
+
+function formatRecapValue(value: number): string {
+  return value.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: Math.abs(value) < 10 ? 3 : 2,
+  });
+}
+
+function formatRecapDate(date: string): string {
+  return date.slice(5).replace('-', '/');
+}
+
+function formatRecapRows(items: MarketRecapItem[], getCells: (item: MarketRecapItem) => string[]): string {
+  return items
+    .map(item => [
+      '<tr>',
+      `<th align="left">${escapeHtml(item.name)}</th>`,
+      ...getCells(item).map(cell => `<td align="right">${escapeHtml(cell)}</td>`),
+      '</tr>',
+    ].join(''))
+    .join('');
+}
+
+const JOB_RUN_STATUS_LABELS: Record<JobRunStatus, string> = {
+  success: '✅ 성공',
+  partial: '⚠️ 일부 실패',
+  failed: '❌ 실패',
+  skipped: '⏭️ 중복 건너뜀',
+};
+
+function formatStatusTime(isoTime: string): string {
+  const date = new Date(isoTime);
+  if (Number.isNaN(date.getTime())) {
+    return isoTime;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'Asia/Seoul',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || '';
+
+  return `${get('month')}/${get('day')} ${get('hour')}:${get('minute')}`;
+}
+
+/**
+ * 실행 기록의 실패 항목 요약 (소스, 차트, 발송 실패 사유)
+ */
+function formatJobRunFailures(run: JobRunRecord): string[] {
+  const failures: string[] = [];
+
+  if (run.error) {
+    failures.push(`오류: ${run.error}`);
+  }
+
+  const failedSources = run.sources.filter(source => !source.ok).map(source => source.source);
+  if (failedSources.length > 0) {
+    failures.push(`조회 실패: ${failedSources.join(', ')}`);
+  }
+
+  const failedCharts = run.charts.filter(chart => !chart.ok).map(chart => chart.chart);
+  if (failedCharts.length > 0) {
+    failures.push(`차트 실패: ${failedCharts.join(', ')}`);
+  }
+
+  for (const delivery of run.deliveries.filter(delivery => !delivery.ok)) {
+    failures.push(`발송 실패 (${delivery.chatId}): ${delivery.description || '알 수 없음'}`);
+  }
+
+  return failures;
+}
+
+function formatHistoryChange(row: MarketHistoryRow): string {
+  if (row.change === null || row.changePercent === null) {
+    return '➖';
+  }
+
+  const change: ChangeInfo = {
+    direction: row.change > 0 ? 'up' : row.change < 0 ? 'down' : 'unchanged',
+    value: Math.abs(row.change).toLocaleString('en-US', { maximumFractionDigits: 2 }),
+    percent: `${Math.abs(row.changePercent).toFixed(2)}%`,
+  };
+
+  return formatChange(change).trim() || '➖';
+}
+
+function formatUsLocalTime(localTradedAt: string): string {
   if (!localTradedAt) {
     return '확인 불가';
   }
@@ -149,30 +347,40 @@ function formatNasdaqLocalTime(localTradedAt: string): string {
 export class TelegramBot {
   private readonly token: string;
   private readonly defaultChatId: string;
+  private readonly capturedCalls?: CapturedTelegramCall[];
 
-  constructor(token: string, chatId: string) {
+  constructor(token: string, chatId: string, capturedCalls?: CapturedTelegramCall[]) {
     this.token = token;
     this.defaultChatId = chatId;
+    this.capturedCalls = capturedCalls;
   }
 
   /**
-   * 텔레그램 API 호출
+   * 텔레그램 API 호출 (FormData는 파일 업로드용 multipart 요청으로 전송)
    */
   private async callApi<T>(
     method: string,
-    params: Record<string, unknown>
+    params: Record<string, unknown> | FormData
   ): Promise<TelegramResponse<T>> {
+    // fixture 모드 또는 /replay: 실제로 보내지 않고 기록만 함
+    if (this.capturedCalls || isFixtureMode()) {
+      return { ok: true, result: captureTelegramCall(method, params, this.capturedCalls) as T };
+    }
+
     const url = `${TELEGRAM_API_BASE}/bot${this.token}/${method}`;
+    const init: RequestInit = params instanceof FormData
+      ? { method: 'POST', body: params }
+      : {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(params),
+      };
 
     for (let attempt = 1; attempt <= TELEGRAM_MAX_ATTEMPTS; attempt += 1) {
       try {
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(params),
-        });
+        const response = await fetch(url, init);
 
         const rawBody = await response.text();
         let parsed: TelegramResponse<T>;
@@ -243,9 +451,33 @@ export class TelegramBot {
       disable_notification: options.disableNotification ?? true,
     };
 
+    if (options.replyMarkup) {
+      params.reply_markup = options.replyMarkup;
+    }
+
     return this.callApi<TelegramMessage>('sendMessage', params);
   }
 
+  /**
+   * 인라인 키보드 버튼 응답 (버튼의 로딩 표시 해제)
+   */
+  async answerCallbackQuery(
+    callbackQueryId: string,
+    text?: string,
+    showAlert = false
+  ): Promise<TelegramResponse<boolean>> {
+    const params: Record<string, unknown> = {
+      callback_query_id: callbackQueryId,
+    };
+
+    if (text) {
+      params.text = text;
+      params.show_alert = showAlert;
+    }
+
+    return this.callApi<boolean>('answerCallbackQuery', params);
+  }
+
   /**
    * 리치 메시지 전송
    */
@@ -272,9 +504,35 @@ export class TelegramBot {
       disable_notification: options.disableNotification ?? true,
     };
 
+    if (options.replyMarkup) {
+      params.reply_markup = options.replyMarkup;
+    }
+
     return this.callApi<TelegramMessage>('sendRichMessage', params);
   }
 
+  /**
+   * 보낸 리치 메시지 본문 수정
+   */
+  async editRichMessage(
+    chatId: string,
+    messageId: number,
+    html: string,
+    options: Pick<SendRichMessageOptions, 'replyMarkup'> = {}
+  ): Promise<TelegramResponse<TelegramMessage | true>> {
+    const params: Record<string, unknown> = {
+      chat_id: chatId,
+      message_id: messageId,
+      rich_message: { html },
+    };
+
+    if (options.replyMarkup) {
+      params.reply_markup = options.replyMarkup;
+    }
+
+    return this.callApi<TelegramMessage | true>('editMessageText', params);
+  }
+
   /**
    * 일일 시장 정보 메시지 전송
    */
@@ -284,13 +542,78 @@ export class TelegramBot {
   }
 
   /**
-   * 나스닥 장마감 현황 메시지 전송
+   * 미국 증시 모닝 브리핑 메시지 전송
+   */
+  async sendUsOvernightMessage(data: UsOvernightSummary, chatId?: string): Promise<TelegramResponse<TelegramMessage>> {
+    const message = this.formatUsOvernightRichMessage(data);
+    return this.sendRichMessage(message, {}, chatId);
+  }
+
+  /**
+   * 관리자 상태 점검 메시지 전송 (/status)
+   */
+  async sendStatusMessage(report: StatusReport, chatId?: string): Promise<TelegramResponse<TelegramMessage>> {
+    const message = this.formatStatusRichMessage(report);
+    return this.sendRichMessage(message, {}, chatId);
+  }
+
+  /**
+   * 주간·월간 리캡 메시지 전송
+   */
+  async sendMarketRecapMessage(
+    recap: MarketRecap,
+    chatId?: string
+  ): Promise<TelegramResponse<TelegramMessage>> {
+    const { items } = recap;
+    const periodName = RECAP_PERIOD_NAMES[recap.period];
+
+    const changeRows = formatRecapRows(items, item => [
+      formatRecapValue(item.last.close),
+      `${item.change >= 0 ? '+' : '-'}${formatRecapValue(Math.abs(item.change))} (${formatPremiumPercent(item.changePercent)})`,
+    ]);
+    const rangeRows = formatRecapRows(items, item => [
+      `${formatRecapValue(item.high.close)} (${formatRecapDate(item.high.date)})`,
+      `${formatRecapValue(item.low.close)} (${formatRecapDate(item.low.date)})`,
+    ]);
+    const dayRows = formatRecapRows(items, item => [
+      item.bestDay ? `${formatRecapDate(item.bestDay.date)} ${formatPremiumPercent(item.bestDay.changePercent)}` : '➖',
+      item.worstDay ? `${formatRecapDate(item.worstDay.date)} ${formatPremiumPercent(item.worstDay.changePercent)}` : '➖',
+    ]);
+
+    const message = [
+      `<h2>🗓️ ${periodName} 시장 리캡</h2>`,
+      `<p>${escapeHtml(formatRecapDate(recap.startDate))} ~ ${escapeHtml(formatRecapDate(recap.endDate))}</p>`,
+      '<table bordered striped>',
+      '<caption>기간 등락</caption>',
+      '<tr><th align="left">시장</th><th align="right">종가</th><th align="right">등락</th></tr>',
+      changeRows,
+      '</table>',
+      '<hr/>',
+      '<table bordered striped>',
+      '<caption>종가 기준 최고·최저</caption>',
+      '<tr><th align="left">시장</th><th align="right">최고</th><th align="right">최저</th></tr>',
+      rangeRows,
+      '</table>',
+      '<hr/>',
+      '<table bordered striped>',
+      '<caption>하루 최대 상승·하락</caption>',
+      '<tr><th align="left">시장</th><th align="right">최대 상승</th><th align="right">최대 하락</th></tr>',
+      dayRows,
+      '</table>',
+      '<p><i>등락은 직전 기간 마지막 종가 대비입니다. 나스닥은 미국 현지 거래일 기준입니다.</i></p>',
+    ].join('');
+
+    return this.sendRichMessage(message, {}, chatId);
+  }
+
+  /**
+   * 미국 증시 장마감 현황 메시지 전송
    */
-  async sendNasdaqCloseStatusMessage(
-    data: NasdaqCloseStatus,
+  async sendUsCloseStatusMessage(
+    statuses: UsIndexCloseStatus[],
     chatId?: string
   ): Promise<TelegramResponse<TelegramMessage>> {
-    const message = this.formatNasdaqCloseStatusRichMessage(data);
+    const message = this.formatUsCloseStatusRichMessage(statuses);
     return this.sendRichMessage(message, {}, chatId);
   }
 
@@ -312,7 +635,7 @@ export class TelegramBot {
       formatMarketTableRow('🇨🇳 CNY/KRW', data.cny),
     ].join('');
 
-    return [
+    const sections = [
       '<h2>📊 일일 시장 상황</h2>',
       '<table bordered striped>',
       '<caption>국내 지수</caption>',
@@ -325,36 +648,200 @@ export class TelegramBot {
       '<tr><th align="left">통화</th><th align="right">현재가</th><th align="right">변동</th></tr>',
       exchangeRows,
       '</table>',
+    ];
+
+    const commodityItems: Array<[string, MarketSummaryItem | undefined]> = [
+      ['🥇 금 (USD/oz)', data.gold],
+      ['🛢️ WTI (USD/bbl)', data.wti],
+      ['🇺🇸 미국채 10년 (%)', data.us10y],
+      ['🇰🇷 국고채 3년 (%)', data.kr3y],
+    ];
+
+    if (commodityItems.some(([, item]) => item)) {
+      const commodityRows = commodityItems
+        .map(([label, item]) => formatMarketTableRow(label, item ?? { value: null }))
+        .join('');
+
+      sections.push(
+        '<hr/>',
+        '<table bordered striped>',
+        '<caption>원자재·금리</caption>',
+        '<tr><th align="left">종목</th><th align="right">현재가</th><th align="right">변동</th></tr>',
+        commodityRows,
+        '</table>',
+      );
+    }
+
+    if (data.watchlist && data.watchlist.length > 0) {
+      const watchlistRows = data.watchlist
+        .map(item => formatMarketTableRow(item.symbol, item))
+        .join('');
+
+      sections.push(
+        '<hr/>',
+        '<table bordered striped>',
+        '<caption>관심 종목</caption>',
+        '<tr><th align="left">종목</th><th align="right">현재가</th><th align="right">변동</th></tr>',
+        watchlistRows,
+        '</table>',
+      );
+    }
+
+    if (data.kimchiPremium && data.kimchiPremium.length > 0) {
+      const premiumRows = data.kimchiPremium
+        .map(premium => [
+          '<tr>',
+          `<th align="left">${escapeHtml(premium.symbol)}</th>`,
+          `<td align="right">${escapeHtml(formatKrwPrice(premium.krwPrice))}</td>`,
+          `<td align="right"><b>${escapeHtml(formatPremiumPercent(premium.premiumPercent))}</b></td>`,
+          '</tr>',
+        ].join(''))
+        .join('');
+
+      sections.push(
+        '<hr/>',
+        '<table bordered striped>',
+        '<caption>김치 프리미엄</caption>',
+        '<tr><th align="left">코인</th><th align="right">업비트</th><th align="right">김프</th></tr>',
+        premiumRows,
+        '</table>',
+      );
+    }
+
+    const usedFallback = [data.kospi, data.kosdaq, data.usd, data.eur, data.jpy, data.gbp, data.chf, data.cny]
+      .some(item => item.provider && item.provider !== 'naver');
+
+    if (usedFallback) {
+      sections.push('<p><i>* 네이버 금융 응답 실패로 Finnhub 시세를 대신 표시했습니다.</i></p>');
+    }
+
+    return sections.join('');
+  }
+
+  /**
+   * 미국 증시 모닝 브리핑 리치 메시지 포맷팅
+   */
+  private formatUsOvernightRichMessage(data: UsOvernightSummary): string {
+    const indexRows = [
+      formatMarketTableRow('🇺🇸 다우존스', data.dji),
+      formatMarketTableRow('🇺🇸 S&P 500', data.inx),
+      formatMarketTableRow('🇺🇸 나스닥', data.ixic),
+      formatMarketTableRow('💾 필라델피아 반도체', data.sox),
+    ].join('');
+
+    const riskRows = [
+      formatMarketTableRow('😱 VIX', data.vix),
+      formatMarketTableRow('📈 미국채 10년 (%)', data.us10y),
+      formatMarketTableRow('💵 달러/원 NDF', data.usdKrwNdf),
+    ].join('');
+
+    // localTradedAt 예: 2025-11-28T16:00:00-05:00
+    const tradedAtText = data.localTradedAt && data.localTradedAt.length >= 16
+      ? `<p><i>미국 현지 ${escapeHtml(data.localTradedAt.slice(5, 10).replace('-', '/'))} ${escapeHtml(data.localTradedAt.slice(11, 16))} 기준</i></p>`
+      : '';
+
+    return [
+      '<h2>🌙 밤사이 미국 증시</h2>',
+      '<table bordered striped>',
+      '<caption>미국 지수</caption>',
+      '<tr><th align="left">지수</th><th align="right">종가</th><th align="right">변동</th></tr>',
+      indexRows,
+      '</table>',
+      '<hr/>',
+      '<table bordered striped>',
+      '<caption>변동성·금리·환율</caption>',
+      '<tr><th align="left">지표</th><th align="right">현재가</th><th align="right">변동</th></tr>',
+      riskRows,
+      '</table>',
+      tradedAtText,
     ].join('');
   }
 
   /**
-   * 나스닥 장마감 현황 리치 메시지 포맷팅
+   * 관리자 상태 점검 리치 메시지 포맷팅 (작업별 마지막 실행 + 외부 소스 점검)
    */
-  private formatNasdaqCloseStatusRichMessage(data: NasdaqCloseStatus): string {
-    const changeText = formatChange(data.change).trim() || '➖';
-    const rows = [
-      formatTableKeyValueRow('당일 시세', data.value, true),
-      formatTableKeyValueRow('전일 대비', changeText),
-      formatTableKeyValueRow('장 상태', data.marketStatusText),
-      formatTableKeyValueRow('현지 기준', formatNasdaqLocalTime(data.localTradedAt)),
-    ];
+  private formatStatusRichMessage(report: StatusReport): string {
+    const probeRows = report.probes.map(probe => [
+      '<tr>',
+      `<th align="left">${escapeHtml(UPSTREAM_SOURCE_NAMES[probe.source])}</th>`,
+      `<td align="right">${probe.ok ? '✅ 정상' : '❌ 실패'}</td>`,
+      `<td align="right">${probe.latencyMs}ms</td>`,
+      '</tr>',
+    ].join('')).join('');
 
-    if (data.openPrice && data.highPrice && data.lowPrice) {
-      rows.push(formatTableKeyValueRow('시가/고가/저가', `${data.openPrice} / ${data.highPrice} / ${data.lowPrice}`));
-    }
+    const jobRows = report.jobs.map(({ job, runs }) => {
+      const run = runs[0];
+      const delivered = run ? run.deliveries.filter(delivery => delivery.ok).length : 0;
 
-    if (data.accumulatedTradingVolume) {
-      rows.push(formatTableKeyValueRow('거래량', data.accumulatedTradingVolume));
-    }
+      return [
+        '<tr>',
+        `<th align="left">${escapeHtml(STATUS_JOB_NAMES[job])}</th>`,
+        `<td align="right">${run ? JOB_RUN_STATUS_LABELS[run.status] : '기록 없음'}</td>`,
+        `<td align="right">${run ? escapeHtml(formatStatusTime(run.startedAt)) : '-'}</td>`,
+        `<td align="right">${run ? `${run.trigger === 'scheduled' ? '정기' : '수동'} · 발송 ${delivered}/${run.deliveries.length}` : '-'}</td>`,
+        '</tr>',
+      ].join('');
+    }).join('');
+
+    const failureRows = report.jobs.flatMap(({ job, runs }) =>
+      (runs[0] ? formatJobRunFailures(runs[0]) : []).map(failure => formatTableKeyValueRow(STATUS_JOB_NAMES[job], failure))
+    );
+
+    return [
+      '<h3>🩺 봇 상태</h3>',
+      `<p><i>${escapeHtml(formatStatusTime(report.generatedAt))} KST 기준</i></p>`,
+      '<table bordered striped>',
+      '<caption>외부 소스 점검</caption>',
+      '<tr><th align="left">소스</th><th align="right">상태</th><th align="right">응답 시간</th></tr>',
+      probeRows,
+      '</table>',
+      '<hr/>',
+      '<table bordered striped>',
+      '<caption>최근 실행</caption>',
+      '<tr><th align="left">작업</th><th align="right">결과</th><th align="right">시작</th><th align="right">비고</th></tr>',
+      jobRows,
+      '</table>',
+      ...(failureRows.length > 0
+        ? ['<hr/>', '<table bordered striped>', '<caption>마지막 실행 실패 내역</caption>', ...failureRows, '</table>']
+        : []),
+    ].join('');
+  }
+
+  /**
+   * 미국 증시 장마감 현황 리치 메시지 포맷팅 (지수별 OHLC·거래량 통합 표)
+   */
+  private formatUsCloseStatusRichMessage(statuses: UsIndexCloseStatus[]): string {
+    const rows = statuses.map(status => [
+      '<tr>',
+      `<th align="left">${escapeHtml(status.name)}</th>`,
+      `<td align="right"><b>${escapeHtml(status.value)}</b></td>`,
+      `<td align="right">${escapeHtml(formatChange(status.change).trim() || '➖')}</td>`,
+      `<td align="right">${escapeHtml(status.openPrice || '-')}</td>`,
+      `<td align="right">${escapeHtml(status.highPrice || '-')}</td>`,
+      `<td align="right">${escapeHtml(status.lowPrice || '-')}</td>`,
+      `<td align="right">${escapeHtml(status.accumulatedTradingVolume || '-')}</td>`,
+      '</tr>',
+    ].join('')).join('');
+
+    const reference = statuses.find(status => status.reutersCode === '.IXIC') || statuses[0];
+    const statusText = reference
+      ? `<p><i>${escapeHtml(reference.marketStatusText)} · 현지 ${escapeHtml(formatUsLocalTime(reference.localTradedAt))} 기준</i></p>`
+      : '';
+
+    const links = statuses
+      .map(status => `<a href="${escapeHtml(status.sourceUrl)}">${escapeHtml(status.name)}</a>`)
+      .join(' · ');
 
     return [
-      '<h3>📈 나스닥 장마감 현황</h3>',
+      '<h3>🇺🇸 미국 증시 장마감 현황</h3>',
       '<p>정규장 종료 10분 후 기준입니다.</p>',
       '<table bordered striped>',
-      rows.join(''),
+      '<tr><th align="left">지수</th><th align="right">종가</th><th align="right">변동</th>',
+      '<th align="right">시가</th><th align="right">고가</th><th align="right">저가</th><th align="right">거래량</th></tr>',
+      rows,
       '</table>',
-      `<p><a href="${escapeHtml(data.sourceUrl)}"><i>자세히 보기</i></a></p>`,
+      statusText,
+      `<p><i>자세히 보기: ${links}</i></p>`,
     ].join('');
   }
 
@@ -367,8 +854,68 @@ export class TelegramBot {
     value: string,
     change?: ChangeInfo,
     chatId?: string,
-    sourceUrl?: string
+    sourceUrl?: string,
+    replyMarkup?: InlineKeyboardMarkup
+  ): Promise<TelegramResponse<TelegramMessage>> {
+    const message = this.formatMarketDataRichMessage(username, marketName, value, change, sourceUrl);
+    return this.sendRichMessage(message, { replyMarkup }, chatId);
+  }
+
+  /**
+   * 개별 시세 메시지를 최신 시세로 수정 (전송 때와 같은 리치 메시지에 갱신 시각 추가)
+   */
+  async editMarketDataMessage(
+    chatId: string,
+    messageId: number,
+    username: string,
+    marketName: string,
+    value: string,
+    change?: ChangeInfo,
+    sourceUrl?: string,
+    replyMarkup?: InlineKeyboardMarkup
+  ): Promise<TelegramResponse<TelegramMessage | true>> {
+    const message = this.formatMarketDataRichMessage(username, marketName, value, change, sourceUrl, new Date());
+    return this.editRichMessage(chatId, messageId, message, { replyMarkup });
+  }
+
+  /**
+   * 국내 종목 시세 메시지 전송 (거래량, 시가총액 포함)
+   */
+  async sendDomesticStockMessage(
+    username: string,
+    stock: DomesticStockData,
+    chatId?: string,
+    replyMarkup?: InlineKeyboardMarkup
   ): Promise<TelegramResponse<TelegramMessage>> {
+    const message = this.formatDomesticStockRichMessage(username, stock);
+    return this.sendRichMessage(message, { replyMarkup }, chatId);
+  }
+
+  /**
+   * 국내 종목 시세 메시지를 최신 시세로 수정
+   */
+  async editDomesticStockMessage(
+    chatId: string,
+    messageId: number,
+    username: string,
+    stock: DomesticStockData,
+    replyMarkup?: InlineKeyboardMarkup
+  ): Promise<TelegramResponse<TelegramMessage | true>> {
+    const message = this.formatDomesticStockRichMessage(username, stock, new Date());
+    return this.editRichMessage(chatId, messageId, message, { replyMarkup });
+  }
+
+  /**
+   * 개별 시세 리치 메시지 포맷 (refreshedAt이 있으면 새로고침 시각 표시)
+   */
+  private formatMarketDataRichMessage(
+    username: string,
+    marketName: string,
+    value: string,
+    change?: ChangeInfo,
+    sourceUrl?: string,
+    refreshedAt?: Date
+  ): string {
     const changeText = formatChange(change);
     const safeUsername = escapeHtml(username);
     const safeMarketName = escapeHtml(marketName);
@@ -378,16 +925,293 @@ export class TelegramBot {
       `<p>@${safeUsername} 현재 시세는 <b>${safeValue}</b>${escapeHtml(changeText)} 입니다.</p>`,
     ];
 
+    if (refreshedAt) {
+      messageLines.push(formatRefreshedAtLine(refreshedAt));
+    }
+
     if (sourceUrl) {
       const safeSourceUrl = escapeHtml(sourceUrl);
       messageLines.push(`<p><a href="${safeSourceUrl}"><i>자세히 보기</i></a></p>`);
     }
 
-    const message = messageLines.join('');
+    return messageLines.join('');
+  }
+
+  /**
+   * 국내 종목 시세 리치 메시지 포맷
+   */
+  private formatDomesticStockRichMessage(username: string, stock: DomesticStockData, refreshedAt?: Date): string {
+    const changeText = formatChange(stock.change);
+    const rows = formatDomesticStockDetails(stock).map(([label, value]) => formatTableKeyValueRow(label, value));
+    const messageLines = [
+      `<h3>${escapeHtml(stock.name)} (${escapeHtml(stock.code)})</h3>`,
+      `<p>@${escapeHtml(username)} 현재 시세는 <b>${escapeHtml(stock.value)}원</b>${escapeHtml(changeText)} 입니다.</p>`,
+    ];
+
+    if (rows.length > 0) {
+      messageLines.push('<table bordered striped>', rows.join(''), '</table>');
+    }
+
+    if (refreshedAt) {
+      messageLines.push(formatRefreshedAtLine(refreshedAt));
+    }
+
+    messageLines.push(`<p><a href="${escapeHtml(stock.sourceUrl)}"><i>자세히 보기</i></a></p>`);
+
+    return messageLines.join('');
+  }
+
+  /**
+   * 가격 알림 발송 메시지 전송
+   */
+  async sendPriceAlertMessage(
+    alert: PriceAlert,
+    quote: AlertQuote,
+    chatId?: string
+  ): Promise<TelegramResponse<TelegramMessage>> {
+    const changeText = formatChange(quote.change).trim() || '➖';
+    const rows = [
+      formatTableKeyValueRow('현재가', quote.value, true),
+      formatTableKeyValueRow('전일 대비', changeText),
+      formatTableKeyValueRow('알림 조건', formatAlertCondition(alert.condition)),
+    ].join('');
+    const footer = alert.condition.kind === 'threshold'
+      ? '지정가 알림은 발송 후 자동으로 삭제됩니다.'
+      : '조건이 해소되면 알림이 다시 활성화됩니다.';
+
+    const message = [
+      `<h3>🔔 ${escapeHtml(alert.label)} 알림 #${alert.id}</h3>`,
+      '<table bordered striped>',
+      rows,
+      '</table>',
+      `<p><i>${escapeHtml(footer)}</i></p>`,
+    ].join('');
+
+    return this.sendRichMessage(message, { disableNotification: false }, chatId);
+  }
+
+  /**
+   * 채팅방 알림 목록 메시지 전송
+   */
+  async sendAlertListMessage(alerts: PriceAlert[], chatId?: string): Promise<TelegramResponse<TelegramMessage>> {
+    if (alerts.length === 0) {
+      return this.sendMessage('🔕 등록된 알림이 없습니다.\n예: 알림 코스피 &gt; 2700', {}, chatId);
+    }
+
+    const rows = alerts.map(alert => [
+      '<tr>',
+      `<td align="right">${alert.id}</td>`,
+      `<th align="left">${escapeHtml(alert.label)}</th>`,
+      `<td align="left">${escapeHtml(formatAlertCondition(alert.condition))}</td>`,
+      `<td align="left">${alert.armed ? '대기' : '발송됨'}</td>`,
+      '</tr>',
+    ].join('')).join('');
+
+    const message = [
+      '<h3>🔔 알림 목록</h3>',
+      '<table bordered striped>',
+      '<tr><th align="right">번호</th><th align="left">대상</th><th align="left">조건</th><th align="left">상태</th></tr>',
+      rows,
+      '</table>',
+      '<p><i>삭제: 알림 삭제 &lt;번호&gt;</i></p>',
+    ].join('');
+
+    return this.sendRichMessage(message, {}, chatId);
+  }
+
+  /**
+   * 관심 종목 목록 메시지 전송
+   */
+  async sendWatchlistMessage(entries: WatchlistEntry[], chatId?: string): Promise<TelegramResponse<TelegramMessage>> {
+    if (entries.length === 0) {
+      return this.sendMessage('⭐ 등록된 관심 종목이 없습니다.\n예: /watch AAPL', {}, chatId);
+    }
+
+    const rows = entries.map(entry => [
+      '<tr>',
+      `<th align="left">${escapeHtml(entry.symbol)}</th>`,
+      `<td align="left">${escapeHtml(entry.name)}</td>`,
+      '</tr>',
+    ].join('')).join('');
+
+    const message = [
+      '<h3>⭐ 관심 종목</h3>',
+      '<table bordered striped>',
+      '<tr><th align="left">심볼</th><th align="left">이름</th></tr>',
+      rows,
+      '</table>',
+      '<p><i>일일 브리핑에 관심 종목 테이블이 함께 표시됩니다.</i></p>',
+    ].join('');
+
+    return this.sendRichMessage(message, {}, chatId);
+  }
+
+  /**
+   * 저장된 종가 이력 메시지 전송
+   */
+  async sendMarketHistoryMessage(
+    marketName: string,
+    rows: MarketHistoryRow[],
+    chatId?: string
+  ): Promise<TelegramResponse<TelegramMessage>> {
+    if (rows.length === 0) {
+      return this.sendMessage(`⚠️ ${escapeHtml(marketName)}의 저장된 이력이 없습니다.`, {}, chatId);
+    }
+
+    const tableRows = rows.map(row => [
+      '<tr>',
+      `<th align="left">${escapeHtml(row.date)}</th>`,
+      `<td align="right"><b>${escapeHtml(row.valueText)}</b></td>`,
+      `<td align="right">${escapeHtml(formatHistoryChange(row))}</td>`,
+      '</tr>',
+    ].join('')).join('');
+
+    const message = [
+      `<h3>🗂️ ${escapeHtml(marketName)} 최근 ${rows.length}일 종가</h3>`,
+      '<table bordered striped>',
+      '<tr><th align="left">날짜</th><th align="right">종가</th><th align="right">전일 대비</th></tr>',
+      tableRows,
+      '</table>',
+      '<p><i>정기 발송 시점에 저장된 데이터 기준입니다.</i></p>',
+    ].join('');
+
+    return this.sendRichMessage(message, {}, chatId);
+  }
+
+  /**
+   * 환전 계산 결과 메시지 전송
+   */
+  async sendCurrencyConversionMessage(
+    conversion: CurrencyConversion,
+    chatId?: string
+  ): Promise<TelegramResponse<TelegramMessage>> {
+    const { from, to, fromRate, toRate } = conversion;
+    const rows = [
+      formatTableKeyValueRow('금액', formatCurrencyAmount(conversion.amount, from)),
+      formatTableKeyValueRow('환산 금액', formatCurrencyAmount(conversion.converted, to), true),
+      formatTableKeyValueRow(
+        '적용 환율',
+        `1 ${from} = ${conversion.rate.toLocaleString('en-US', { maximumSignificantDigits: 6 })} ${to}`,
+      ),
+    ];
+
+    // 원화를 거친 환산은 각 통화의 고시 환율도 함께 표시
+    for (const rate of [fromRate, toRate]) {
+      if (rate.code === 'KRW') continue;
+      rows.push(formatTableKeyValueRow(`${rate.code}/KRW`, `${rate.quotedRate}${rate.quoteUnit > 1 ? ` (${rate.quoteUnit} ${rate.code})` : ''}`));
+    }
+
+    const message = [
+      '<h3>💱 환전 계산</h3>',
+      '<table bordered striped>',
+      rows.join(''),
+      '</table>',
+      '<p><i>네이버 금융 매매기준율 기준이며 실제 환전 금액과 다를 수 있습니다.</i></p>',
+    ].join('');
+
+    return this.sendRichMessage(message, {}, chatId);
+  }
+
+  /**
+   * 김치 프리미엄 메시지 전송
+   */
+  async sendKimchiPremiumMessage(
+    premium: KimchiPremium,
+    chatId?: string
+  ): Promise<TelegramResponse<TelegramMessage>> {
+    const rows = [
+      formatTableKeyValueRow('김치 프리미엄', formatPremiumPercent(premium.premiumPercent), true),
+      formatTableKeyValueRow('업비트', formatKrwPrice(premium.krwPrice)),
+      formatTableKeyValueRow(
+        '해외 시세',
+        `${premium.usdPrice.toLocaleString('en-US', { maximumFractionDigits: 4 })} USD (${premium.usdSymbol})`,
+      ),
+      formatTableKeyValueRow('해외 시세 원화 환산', formatKrwPrice(premium.globalKrwPrice)),
+      formatTableKeyValueRow('적용 환율', `1 USD = ${premium.usdKrwRate.toLocaleString('en-US', { maximumFractionDigits: 2 })}원`),
+    ];
+
+    const message = [
+      `<h3>🌶️ ${escapeHtml(premium.symbol)} 김치 프리미엄</h3>`,
+      '<table bordered striped>',
+      rows.join(''),
+      '</table>',
+      '<p><i>업비트 원화 마켓과 해외 거래소 USD 시세를 네이버 매매기준율로 환산해 비교했습니다.</i></p>',
+    ].join('');
 
     return this.sendRichMessage(message, {}, chatId);
   }
 
+  /**
+   * 명령어 메뉴 등록 (languageCode가 없으면 기본 목록)
+   */
+  async setMyCommands(
+    commands: Array<{ command: string; description: string }>,
+    languageCode?: string
+  ): Promise<TelegramResponse<boolean>> {
+    const params: Record<string, unknown> = { commands };
+
+    if (languageCode) {
+      params.language_code = languageCode;
+    }
+
+    return this.callApi<boolean>('setMyCommands', params);
+  }
+
+  /**
+   * 인라인 쿼리 응답
+   */
+  async answerInlineQuery(
+    inlineQueryId: string,
+    results: InlineQueryResultArticle[],
+    options: AnswerInlineQueryOptions = {}
+  ): Promise<TelegramResponse<boolean>> {
+    const params: Record<string, unknown> = {
+      inline_query_id: inlineQueryId,
+      results,
+    };
+
+    if (options.cacheTime !== undefined) {
+      params.cache_time = options.cacheTime;
+    }
+
+    if (options.isPersonal) {
+      params.is_personal = true;
+    }
+
+    return this.callApi<boolean>('answerInlineQuery', params);
+  }
+
+  /**
+   * 인라인 시세 조회 결과 응답 (인라인 메시지는 rich message를 지원하지 않아 HTML 텍스트로 전송)
+   */
+  async answerMarketQuoteInlineQuery(
+    inlineQueryId: string,
+    quotes: InlineQuote[],
+    cacheTime?: number
+  ): Promise<TelegramResponse<boolean>> {
+    const results: InlineQueryResultArticle[] = quotes.map(quote => {
+      const changeText = formatChange(quote.change).trim();
+
+      return {
+        type: 'article',
+        id: quote.id,
+        title: `${quote.name} ${quote.value}`,
+        description: changeText || undefined,
+        input_message_content: {
+          message_text: [
+            `<b>${escapeHtml(quote.name)}</b>`,
+            `현재 시세 <b>${escapeHtml(quote.value)}</b>${changeText ? ` ${escapeHtml(changeText)}` : ''}`,
+            `<a href="${escapeHtml(quote.sourceUrl)}"><i>자세히 보기</i></a>`,
+          ].join('\n'),
+          parse_mode: 'HTML',
+          link_preview_options: { is_disabled: true },
+        },
+      };
+    });
+
+    return this.answerInlineQuery(inlineQueryId, results, { cacheTime });
+  }
+
   /**
    * 이미지(URL) 전송
    */
@@ -410,16 +1234,58 @@ export class TelegramBot {
     return this.callApi<TelegramMessage>('sendPhoto', params);
   }
 
+  /**
+   * 이미지 파일(PNG) 업로드 전송
+   */
+  async sendPhotoFile(
+    photo: Uint8Array,
+    filename: string,
+    caption?: string,
+    chatId?: string
+  ): Promise<TelegramResponse<TelegramMessage>> {
+    const form = new FormData();
+    form.append('chat_id', chatId || this.defaultChatId);
+    form.append('photo', new Blob([photo], { type: 'image/png' }), filename);
+    form.append('disable_notification', 'true');
+
+    if (caption) {
+      form.append('caption', caption);
+      form.append('parse_mode', 'HTML');
+    }
+
+    return this.callApi<TelegramMessage>('sendPhoto', form);
+  }
+
+  /**
+   * 차트 이미지 전송 (워커 렌더링 PNG 우선, 실패 시 QuickChart URL로 재시도)
+   */
+  async sendChartImage(
+    chart: ChartImage,
+    caption?: string,
+    chatId?: string
+  ): Promise<TelegramResponse<TelegramMessage>> {
+    if (chart.png) {
+      const res = await this.sendPhotoFile(chart.png, 'chart.png', caption, chatId);
+      if (res.ok) {
+        return res;
+      }
+
+      console.warn('Chart upload failed, falling back to QuickChart URL:', res.description);
+    }
+
+    return this.sendPhoto(chart.url, caption, chatId);
+  }
+
   /**
    * 차트 이미지들 전송
    */
   async sendChartImages(charts: {
-    kospi: string | null;
-    usd: string | null;
+    kospi: ChartImage | null;
+    usd: ChartImage | null;
   }, chatId?: string): Promise<void> {
     if (charts.kospi) {
       try {
-        const res = await this.sendPhoto(charts.kospi, '<b>📈 코스피 7일 추이</b>', chatId);
+        const res = await this.sendChartImage(charts.kospi, '<b>📈 코스피 7일 추이</b>', chatId);
         if (!res.ok) {
           console.error('Failed to send KOSPI chart image:', res.description);
         }
@@ -430,7 +1296,7 @@ export class TelegramBot {
 
     if (charts.usd) {
       try {
-        const res = await this.sendPhoto(charts.usd, '<b>💵 USD/KRW 환율 7일 추이</b>', chatId);
+        const res = await this.sendChartImage(charts.usd, '<b>💵 USD/KRW 환율 7일 추이</b>', chatId);
         if (!res.ok) {
           console.error('Failed to send USD chart image:', res.description);
         }
@@ -445,5 +1311,5 @@ export class TelegramBot {
  * 환경변수에서 TelegramBot 인스턴스 생성
  */
 export function createTelegramBot(env: TelegramEnv): TelegramBot {
-  return new TelegramBot(env.TELEGRAM_BOT_TOKEN, env.TELEGRAM_CHAT_ID);
+  return new TelegramBot(env.TELEGRAM_BOT_TOKEN, env.TELEGRAM_CHAT_ID, env.TELEGRAM_CAPTURE);
 }
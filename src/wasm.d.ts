@@ -0,0 +1,5 @@
+// Wrangler는 .wasm import를 컴파일된 WebAssembly.Module로 번들링한다
+declare module '*.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
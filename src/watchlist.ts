@@ -0,0 +1,207 @@
+/**
+ * 채팅방별 관심 종목(watchlist) 모듈
+ *
+ * - `/watch <검색어>`: Finnhub 심볼로 변환해 관심 종목에 추가
+ * - `/unwatch <심볼|검색어>`: 관심 종목에서 삭제 (추가할 때 쓴 검색어로도 삭제 가능)
+ * - `/watchlist`: 관심 종목 목록
+ */
+
+import {
+  buildDirectSymbolCandidates,
+  getFinnhubMarketData,
+  GlobalLookupResult,
+  WatchlistSummaryItem,
+} from './scraper';
+import { BotStateKv } from './kv';
+
+const WATCHLIST_KEY_PREFIX = 'watchlist:';
+export const MAX_WATCHLIST_SIZE = 20;
+
+export interface WatchlistEntry {
+  symbol: string;
+  name: string;
+  query?: string;         // /watch에 입력한 검색어 (대문자, 예: BTC-USD → BINANCE:BTCUSDT)
+  addedAt: string;
+  addedBy?: string;
+}
+
+export type WatchCommand =
+  | { action: 'watch'; query: string }
+  | { action: 'unwatch'; symbol: string }
+  | { action: 'list' }
+  | { action: 'invalid'; reason: string };
+
+export type AddWatchlistResult =
+  | { status: 'added'; entry: WatchlistEntry }
+  | { status: 'duplicate'; entry: WatchlistEntry }
+  | { status: 'full' }
+  | Exclude<GlobalLookupResult, { status: 'ok' }>;
+
+export const WATCH_USAGE_TEXT = [
+  '사용법:',
+  '• /watch AAPL',
+  '• /watch BTC-USD',
+  '• /unwatch AAPL',
+  '• /watchlist',
+].join('\n');
+
+/**
+ * /watch, /unwatch, /watchlist 명령어 파싱
+ */
+export function parseWatchCommand(command: string): WatchCommand | null {
+  const match = command.trim().match(/^\/(watchlist|watch|unwatch)(?:@\w+)?(?:\s+(.*))?$/i);
+
+  if (!match) {
+    return null;
+  }
+
+  const action = match[1].toLowerCase();
+  const argument = (match[2] || '').trim();
+
+  if (action === 'watchlist') {
+    return { action: 'list' };
+  }
+
+  if (!argument) {
+    return { action: 'invalid', reason: '종목을 입력해주세요.' };
+  }
+
+  if (action === 'watch') {
+    return { action: 'watch', query: argument };
+  }
+
+  return { action: 'unwatch', symbol: argument.toUpperCase() };
+}
+
+function getWatchlistKey(chatId: string): string {
+  return `${WATCHLIST_KEY_PREFIX}${chatId}`;
+}
+
+export async function loadWatchlist(kv: BotStateKv, chatId: string): Promise<WatchlistEntry[]> {
+  const entries = await kv.get<WatchlistEntry[]>(getWatchlistKey(chatId), 'json');
+  return entries || [];
+}
+
+async function saveWatchlist(kv: BotStateKv, chatId: string, entries: WatchlistEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    await kv.delete(getWatchlistKey(chatId));
+    return;
+  }
+
+  await kv.put(getWatchlistKey(chatId), JSON.stringify(entries));
+}
+
+/**
+ * 심볼, 추가할 때 쓴 검색어, /watch와 같은 직접 조회 심볼 후보 순서로 관심 종목 찾기
+ */
+function findWatchlistEntryIndex(entries: WatchlistEntry[], upperQuery: string): number {
+  const exactIndex = entries.findIndex(entry => entry.symbol === upperQuery || entry.query === upperQuery);
+
+  if (exactIndex !== -1) {
+    return exactIndex;
+  }
+
+  for (const symbol of buildDirectSymbolCandidates(upperQuery)) {
+    const index = entries.findIndex(entry => entry.symbol === symbol);
+    if (index !== -1) {
+      return index;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * 검색어를 Finnhub 심볼로 변환해 관심 종목에 추가
+ */
+export async function addToWatchlist(
+  kv: BotStateKv,
+  chatId: string,
+  query: string,
+  apiKey: string,
+  addedBy?: string
+): Promise<AddWatchlistResult> {
+  const entries = await loadWatchlist(kv, chatId);
+  const upperQuery = query.trim().toUpperCase();
+  const existing = findWatchlistEntryIndex(entries, upperQuery);
+
+  if (existing !== -1) {
+    return { status: 'duplicate', entry: entries[existing] };
+  }
+
+  if (entries.length >= MAX_WATCHLIST_SIZE) {
+    return { status: 'full' };
+  }
+
+  const lookup = await getFinnhubMarketData(query, apiKey);
+  if (lookup.status !== 'ok') {
+    return lookup;
+  }
+
+  const resolvedDuplicate = entries.find(entry => entry.symbol === lookup.data.symbol);
+  if (resolvedDuplicate) {
+    return { status: 'duplicate', entry: resolvedDuplicate };
+  }
+
+  const entry: WatchlistEntry = {
+    symbol: lookup.data.symbol,
+    name: lookup.data.name,
+    query: upperQuery !== lookup.data.symbol ? upperQuery : undefined,
+    addedAt: new Date().toISOString(),
+    addedBy,
+  };
+
+  entries.push(entry);
+  await saveWatchlist(kv, chatId, entries);
+
+  return { status: 'added', entry };
+}
+
+export async function removeFromWatchlist(
+  kv: BotStateKv,
+  chatId: string,
+  symbol: string
+): Promise<WatchlistEntry | null> {
+  const entries = await loadWatchlist(kv, chatId);
+  const index = findWatchlistEntryIndex(entries, symbol.trim().toUpperCase());
+
+  if (index === -1) {
+    return null;
+  }
+
+  const [removed] = entries.splice(index, 1);
+  await saveWatchlist(kv, chatId, entries);
+
+  return removed;
+}
+
+/**
+ * 관심 종목 시세 조회 (브리핑 테이블용)
+ */
+export async function getWatchlistSummary(
+  entries: WatchlistEntry[],
+  apiKey: string
+): Promise<WatchlistSummaryItem[]> {
+  return Promise.all(entries.map(async (entry): Promise<WatchlistSummaryItem> => {
+    try {
+      const result = await getFinnhubMarketData(entry.symbol, apiKey);
+
+      if (result.status === 'ok') {
+        return {
+          symbol: entry.symbol,
+          name: entry.name,
+          value: result.data.value,
+          change: result.data.change,
+        };
+      }
+
+      if (result.status === 'error') {
+        console.error(`Watchlist quote failed for ${entry.symbol}:`, result.reason);
+      }
+    } catch (error) {
+      console.error(`Watchlist quote failed for ${entry.symbol}:`, error);
+    }
+
+    return { symbol: entry.symbol, name: entry.name, value: null };
+  }));
+}